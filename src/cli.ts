@@ -0,0 +1,370 @@
+import path from 'path';
+import { parseArgs } from 'util';
+import { AuditLog, AuditAction } from './services/storage/AuditLog';
+import { closeDatabase, openDatabase, databasePath } from './services/storage/Database';
+import { createMailProvider } from './services/email/createMailProvider';
+import { createClassifier } from './services/classifier/Classifier';
+import { EmailProcessor, processorOptionsFromConfig } from './services/processor/EmailProcessor';
+import { DashboardServer } from './services/dashboard/DashboardServer';
+import { BackupArchive } from './services/backup/BackupArchive';
+import { BackupStore, BackupEntry } from './services/storage/BackupStore';
+import { DeletionQueue, QueueStatus } from './services/storage/DeletionQueue';
+import { SenderRules } from './services/rules/SenderRules';
+import { extractAddress } from './utils/address';
+import { Daemon } from './services/daemon/Daemon';
+import { GmailOAuth } from './services/auth/GmailOAuth';
+import { acquireLock, RUN_LOCK_NAME } from './utils/lockFile';
+import { EnvConfig } from './config/env';
+import { loadAccounts, findAccount } from './config/accounts';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage: npx ts-node src/cli.ts <command> [--account <name>] [options]
+
+Global options:
+  --account <name>  Account from the accounts file to work on (required when
+                    the file lists more than one)
+
+Commands:
+  audit     Search the audit log
+              --sender <text>   Match sender (substring)
+              --since <date>    Only entries on or after this date (YYYY-MM-DD)
+              --until <date>    Only entries on or before this date (YYYY-MM-DD)
+              --action <name>   classify | label | move | copy | archive | trash |
+                                delete | unsubscribe
+              --category <name> Only classifications into this category
+              --limit <n>       Maximum number of entries (default 100)
+  queue     Review emails waiting to be deleted by the cleanup pass
+            queue list [--status <name>] [--sender <text>] [--limit <n>]
+              --status <name>   pending (default) | approved | rejected |
+                                deleted | failed
+            queue approve <id>...          Delete at the next cleanup pass
+            queue approve --all [--sender <text>]
+            queue reject <id>...           Keep, and allowlist the sender
+  backups   List emails backed up before deletion
+              --sender <text>   Match sender (substring)
+              --since <date>    Only backups made on or after this date (YYYY-MM-DD)
+              --limit <n>       Maximum number of entries (default 100)
+  restore   Upload backed-up emails to the mailbox again
+              --id <n>          Backup to restore (repeatable, see backups)
+              --message-id <id> Restore the latest backup of this Message-ID
+              --folder <name>   Folder to restore into (default: the folder
+                                the email was removed from)
+  dashboard Serve the web dashboard on http://127.0.0.1:<port>/
+              --port <n>        Port to listen on (default DASHBOARD_PORT)
+  authorize Sign in to Gmail with OAuth2 (GMAIL_CLIENT_ID/GMAIL_CLIENT_SECRET)
+            in the browser and store the refresh token for IMAP_AUTH=oauth2
+  daemon    Run continuously: classify every CHECK_INTERVAL_MINUTES,
+            clean up every CLEANUP_INTERVAL_MINUTES
+`;
+
+function parseDate(value: string | undefined, option: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date for --${option}: ${value}`);
+  }
+  return date;
+}
+
+async function auditCommand(args: string[], env: EnvConfig): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      sender: { type: 'string' },
+      since: { type: 'string' },
+      until: { type: 'string' },
+      action: { type: 'string' },
+      category: { type: 'string' },
+      limit: { type: 'string' }
+    }
+  });
+
+  const until = parseDate(values.until, 'until');
+  if (until && /^\d{4}-\d{2}-\d{2}$/.test(values.until as string)) {
+    // A bare date means "through the end of that day"
+    until.setUTCHours(23, 59, 59, 999);
+  }
+
+  const auditLog = new AuditLog(openDatabase(databasePath(env.dataDir)));
+  const entries = auditLog.search({
+    sender: values.sender,
+    since: parseDate(values.since, 'since'),
+    until,
+    action: values.action as AuditAction | undefined,
+    category: values.category,
+    limit: values.limit ? parseInt(values.limit, 10) : undefined
+  });
+
+  if (entries.length === 0) {
+    console.log('No matching audit log entries');
+    return;
+  }
+
+  for (const entry of entries) {
+    const flags = [entry.dryRun ? 'dry run' : '', entry.success ? '' : `FAILED: ${entry.error}`]
+      .filter(Boolean)
+      .join(', ');
+    console.log(`\n[${entry.createdAt}] ${entry.action}${entry.target ? ` -> ${entry.target}` : ''}${flags ? ` (${flags})` : ''}`);
+    console.log(`- UID: ${entry.uid} in ${entry.folder}${entry.messageId ? `, Message-ID: ${entry.messageId}` : ''}`);
+    console.log(`- From: ${entry.sender}`);
+    console.log(`- Subject: ${entry.subject}`);
+    if (entry.action === 'classify') {
+      console.log(`- Result: ${entry.category ?? (entry.isAdvertising ? 'advertising' : 'not advertising')} (${((entry.confidence ?? 0) * 100).toFixed(1)}% confidence, model ${entry.model})`);
+      console.log(`- Reason: ${entry.reason}`);
+    } else if (entry.reason) {
+      console.log(`- Reason: ${entry.reason}`);
+    }
+  }
+  console.log(`\n${entries.length} entries`);
+}
+
+async function queueCommand(args: string[], env: EnvConfig): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      status: { type: 'string' },
+      sender: { type: 'string' },
+      limit: { type: 'string' },
+      all: { type: 'boolean' }
+    }
+  });
+  const [subcommand = 'list', ...ids] = positionals;
+  const queue = new DeletionQueue(openDatabase(databasePath(env.dataDir)));
+
+  if (subcommand === 'list') {
+    const items = queue.list({
+      status: (values.status as QueueStatus | undefined) || 'pending',
+      sender: values.sender,
+      limit: values.limit ? parseInt(values.limit, 10) : undefined
+    });
+    if (items.length === 0) {
+      console.log('No matching queued deletions');
+      return;
+    }
+    for (const item of items) {
+      console.log(`\n#${item.id} [${item.queuedAt}] ${item.action} from ${item.folder} (${item.status}${item.error ? `: ${item.error}` : ''})`);
+      console.log(`- From: ${item.sender}`);
+      console.log(`- Subject: ${item.subject}`);
+      console.log(`- Reason: ${item.reason}`);
+    }
+    console.log(`\n${items.length} items`);
+    return;
+  }
+
+  if (subcommand === 'approve' && values.all) {
+    const approved = queue.approveAll(values.sender);
+    console.log(`Approved ${approved} queued deletions`);
+    return;
+  }
+
+  if (subcommand !== 'approve' && subcommand !== 'reject') {
+    throw new Error(`Unknown queue command: ${subcommand} (expected list, approve or reject)`);
+  }
+  if (ids.length === 0) {
+    throw new Error(`Give the IDs to ${subcommand} (see queue list)`);
+  }
+
+  const senderRules = subcommand === 'reject' ? new SenderRules(path.join(env.dataDir, 'rules.json')) : null;
+  for (const id of ids) {
+    const item = queue.get(parseInt(id, 10));
+    if (!item || !queue.review(item.id, subcommand === 'approve' ? 'approved' : 'rejected')) {
+      console.log(`#${id}: not waiting for deletion`);
+      continue;
+    }
+    console.log(`#${item.id}: ${subcommand === 'approve' ? 'approved' : 'rejected'} (${item.subject})`);
+
+    if (senderRules) {
+      // Keep the rest of this sender's mail too
+      const address = extractAddress(item.sender);
+      if (senderRules.addRule('allow', { address, note: `Rejected deletion of "${item.subject}"` })) {
+        console.log(`- Added ${address} to the allowlist in ${senderRules.path}`);
+      }
+    }
+  }
+}
+
+async function backupsCommand(args: string[], env: EnvConfig): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      sender: { type: 'string' },
+      since: { type: 'string' },
+      limit: { type: 'string' }
+    }
+  });
+
+  const entries = new BackupStore(openDatabase(databasePath(env.dataDir))).search({
+    sender: values.sender,
+    since: parseDate(values.since, 'since'),
+    limit: values.limit ? parseInt(values.limit, 10) : undefined
+  });
+
+  if (entries.length === 0) {
+    console.log('No matching backups');
+    return;
+  }
+
+  for (const entry of entries) {
+    console.log(`\n#${entry.id} [${entry.createdAt}] from ${entry.folder}`);
+    console.log(`- From: ${entry.sender}`);
+    console.log(`- Subject: ${entry.subject}`);
+    if (entry.messageId) console.log(`- Message-ID: ${entry.messageId}`);
+  }
+  console.log(`\n${entries.length} backups`);
+}
+
+async function restoreCommand(args: string[], env: EnvConfig): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      id: { type: 'string', multiple: true },
+      'message-id': { type: 'string', multiple: true },
+      folder: { type: 'string' }
+    }
+  });
+
+  const store = new BackupStore(openDatabase(databasePath(env.dataDir)));
+  const entries: BackupEntry[] = [];
+  for (const id of values.id ?? []) {
+    const entry = store.get(parseInt(id, 10));
+    if (!entry) throw new Error(`No backup #${id}`);
+    entries.push(entry);
+  }
+  for (const messageId of values['message-id'] ?? []) {
+    const [latest] = store.findByMessageId(messageId);
+    if (!latest) throw new Error(`No backup of ${messageId}`);
+    entries.push(latest);
+  }
+  if (entries.length === 0) {
+    throw new Error('Choose the emails to restore with --id or --message-id (see the backups command)');
+  }
+
+  const archive = new BackupArchive(store, path.join(env.dataDir, 'backups'), env.maxBackupMb);
+  const mailProvider = createMailProvider(env);
+  await mailProvider.connect();
+  try {
+    for (const entry of entries) {
+      const folder = values.folder || entry.folder;
+      await mailProvider.appendMessage(archive.read(entry), folder);
+      console.log(`Restored #${entry.id} to ${folder}: ${entry.subject}`);
+    }
+  } finally {
+    await mailProvider.disconnect();
+  }
+}
+
+async function dashboardCommand(args: string[], env: EnvConfig): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      port: { type: 'string' }
+    }
+  });
+
+  const options = processorOptionsFromConfig(env);
+  const mailProvider = createMailProvider(env);
+  const processor = new EmailProcessor(mailProvider, createClassifier(env, options.categories), options, env);
+  const dashboard = new DashboardServer(mailProvider, processor, {
+    port: values.port ? parseInt(values.port, 10) : env.dashboardPort,
+    categories: options.categories,
+    deletionDelayDays: options.deletionDelayDays
+  }, env);
+
+  const url = await dashboard.start();
+  console.log(`Dashboard running at ${url} (Ctrl+C to stop)`);
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', () => resolve());
+    process.once('SIGTERM', () => resolve());
+  });
+
+  await dashboard.stop();
+  await mailProvider.disconnect();
+}
+
+async function authorizeCommand(_args: string[], env: EnvConfig): Promise<void> {
+  const oauth = new GmailOAuth(env);
+  await oauth.authorize();
+  await oauth.getAccessToken();
+  console.log(`Authorized ${env.emailUser || 'the account'}. The refresh token is stored encrypted in ${env.dataDir}`);
+  if (env.imapAuth !== 'oauth2') {
+    console.log('Set IMAP_AUTH=oauth2 to log in with it');
+  }
+}
+
+async function daemonCommand(_args: string[], env: EnvConfig): Promise<void> {
+  const releaseLock = acquireLock(path.join(env.dataDir, RUN_LOCK_NAME));
+  try {
+    const options = processorOptionsFromConfig(env);
+    const mailProvider = createMailProvider(env);
+    const processor = new EmailProcessor(mailProvider, createClassifier(env, options.categories), options, env);
+    processor.logConfiguration();
+
+    const daemon = new Daemon(mailProvider, processor, {
+      classifyIntervalMinutes: env.checkIntervalMinutes,
+      cleanupIntervalMinutes: env.cleanupIntervalMinutes,
+      watchNewMail: env.watchNewMail,
+      newMailPollSeconds: env.newMailPollSeconds
+    });
+    process.once('SIGTERM', () => daemon.stop('SIGTERM'));
+    process.once('SIGINT', () => daemon.stop('SIGINT'));
+
+    await daemon.start();
+  } finally {
+    releaseLock();
+  }
+}
+
+const commands: Record<string, (args: string[], env: EnvConfig) => Promise<void>> = {
+  audit: auditCommand,
+  queue: queueCommand,
+  dashboard: dashboardCommand,
+  backups: backupsCommand,
+  restore: restoreCommand,
+  authorize: authorizeCommand,
+  daemon: daemonCommand
+};
+
+/**
+ * Take the global --account option out of the arguments
+ * @returns The remaining arguments, and the settings of the account the command works on
+ */
+function selectAccount(args: string[]): { args: string[]; env: EnvConfig } {
+  const index = args.findIndex(arg => arg === '--account' || arg.startsWith('--account='));
+  const name = index === -1 ? undefined : args[index].split('=')[1] ?? args[index + 1];
+  const rest = index === -1 ? args : args.filter((_, i) => i !== index && !(i === index + 1 && !args[index].includes('=')));
+
+  if (name) {
+    return { args: rest, env: findAccount(name).env };
+  }
+
+  const { accounts } = loadAccounts();
+  if (accounts.length > 1) {
+    throw new Error(`Choose an account with --account <name> (accounts: ${accounts.map(account => account.name).join(', ')})`);
+  }
+  return { args: rest, env: accounts[0].env };
+}
+
+async function run() {
+  const [commandName, ...args] = process.argv.slice(2);
+  const command = commandName ? commands[commandName] : undefined;
+  if (!command) {
+    console.log(USAGE);
+    process.exit(commandName ? 1 : 0);
+  }
+
+  try {
+    const account = selectAccount(args);
+    await command(account.args, account.env);
+  } finally {
+    closeDatabase();
+  }
+}
+
+run().catch(error => {
+  console.error('Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
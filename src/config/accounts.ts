@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import { config, EnvConfig, defaultActionMode } from './env';
+
+/** Name of the account used when there is no accounts file */
+export const DEFAULT_ACCOUNT = 'default';
+
+export interface Account {
+  name: string;
+  env: EnvConfig;  // The global configuration with this account's settings applied
+}
+
+export interface AccountList {
+  accounts: Account[];
+  concurrency: number;  // Accounts processed at the same time
+}
+
+/**
+ * An account in accounts.json: a name plus any settings that differ from
+ * the environment, using the same names as EnvConfig, e.g. "imapHost"
+ */
+type AccountEntry = Partial<EnvConfig> & {
+  name?: string;
+  emailPasswordEnv?: string;  // Read the password from this environment variable instead
+};
+
+interface AccountsFile {
+  concurrency?: number;
+  accounts?: AccountEntry[];
+}
+
+/** Settings of the run as a whole, which an account can't override */
+const RUN_SETTINGS: Array<keyof EnvConfig> = [
+  'accountsFile', 'accountConcurrency', 'cacheDir',
+  'classifyConcurrency', 'classifyRequestsPerMinute', 'classifyMaxRetries', 'classifyTokenBudget'
+];
+
+function accountEnv(entry: AccountEntry, base: EnvConfig): EnvConfig {
+  const { name, emailPasswordEnv, ...settings } = entry;
+  if (!name || !/^[A-Za-z0-9._-]+$/.test(name)) {
+    throw new Error(`Invalid account name "${name ?? ''}" (use letters, digits, ".", "_" and "-")`);
+  }
+
+  for (const [key, value] of Object.entries(settings)) {
+    if (!(key in base) || RUN_SETTINGS.includes(key as keyof EnvConfig)) {
+      throw new Error(`Unknown setting "${key}" for account "${name}"`);
+    }
+    if (typeof value !== typeof base[key as keyof EnvConfig]) {
+      throw new Error(`Setting "${key}" for account "${name}" should be a ${typeof base[key as keyof EnvConfig]}`);
+    }
+  }
+
+  const env: EnvConfig = {
+    ...base,
+    // Each account keeps its database, rules and backups apart from the others
+    dataDir: path.join(base.dataDir, 'accounts', name),
+    ...settings
+  };
+  if (settings.imapHost && !settings.smtpHost) {
+    env.smtpHost = settings.imapHost.replace(/^imap\./, 'smtp.');
+  }
+  if ((settings.imapHost || settings.emailProvider) && !settings.actionMode && !process.env.ACTION_MODE) {
+    env.actionMode = defaultActionMode(env.emailProvider, env.imapHost);
+  }
+  if (emailPasswordEnv) {
+    const password = process.env[emailPasswordEnv];
+    if (!password) {
+      throw new Error(`Environment variable ${emailPasswordEnv} for the password of account "${name}" is not set`);
+    }
+    env.emailPassword = password;
+  }
+  return env;
+}
+
+/**
+ * Load the accounts to process from accounts.json (ACCOUNTS_FILE).
+ * Without the file, the single account configured in the environment is used,
+ * with its data in DATA_DIR as before.
+ */
+export function loadAccounts(filePath: string = config.accountsFile, base: EnvConfig = config): AccountList {
+  if (!fs.existsSync(filePath)) {
+    return {
+      accounts: [{ name: DEFAULT_ACCOUNT, env: base }],
+      concurrency: base.accountConcurrency
+    };
+  }
+
+  let parsed: AccountsFile;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to parse accounts file "${filePath}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(parsed.accounts) || parsed.accounts.length === 0) {
+    throw new Error(`Accounts file "${filePath}" lists no accounts`);
+  }
+
+  const accounts = parsed.accounts.map(entry => ({ name: entry.name as string, env: accountEnv(entry, base) }));
+  const names = accounts.map(account => account.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`Account "${duplicate}" is listed twice in "${filePath}"`);
+  }
+
+  return {
+    accounts,
+    concurrency: Math.max(1, parsed.concurrency ?? base.accountConcurrency)
+  };
+}
+
+/**
+ * Find an account by name, for commands that work on one account at a time
+ */
+export function findAccount(name: string, filePath: string = config.accountsFile, base: EnvConfig = config): Account {
+  const { accounts } = loadAccounts(filePath, base);
+  const account = accounts.find(candidate => candidate.name === name);
+  if (!account) {
+    throw new Error(`Unknown account "${name}" (accounts: ${accounts.map(candidate => candidate.name).join(', ')})`);
+  }
+  return account;
+}
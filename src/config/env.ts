@@ -17,20 +17,59 @@ export interface EnvConfig {
   imapHost: string;
   imapPort: number;
   imapTls: boolean;
+  smtpHost: string;
+  smtpPort: number;
+  smtpSecure: boolean;
+  imapAuth: 'password' | 'oauth2';
+  gmailClientId: string;
+  gmailClientSecret: string;
+  tokenEncryptionKey: string;
+
+  // Classification
+  classifierBackend: 'openai' | 'local';
+  openaiApiKey: string;
+  classifyConcurrency: number;
+  classifyRequestsPerMinute: number;
+  classifyMaxRetries: number;
+  classifyTokenBudget: number;
 
   // Processing Settings
   maxEmailAgeDays: number;
   batchSize: number;
   checkIntervalMinutes: number;
+  watchNewMail: boolean;
+  newMailPollSeconds: number;
   classificationConfidenceThreshold: number;
+  headerScoreThreshold: number;
+  reviewLabel: string;
+  actionMode: 'label' | 'move' | 'copy+flag';
   deletionDelayDays: number;
+  deleteFromAdvertisingDays: number;
+  cleanupIntervalMinutes: number;
+  dashboardPort: number;
+  unsubscribe: boolean;
+  hardDelete: boolean;
+  backupBeforeDelete: boolean;
+  dryRun: boolean;
+  accountConcurrency: number;
 
   // Local Storage
   dataDir: string;
+  accountsFile: string;
+  cacheDir: string;
   logDir: string;
   tempDir: string;
   maxLogSizeMb: number;
   maxTempFilesMb: number;
+  maxBackupMb: number;
+}
+
+/**
+ * Keywords don't put mail in a folder, and the cleanup pass looks in the
+ * category folders, so IMAP servers without Gmail labels move by default
+ */
+export function defaultActionMode(emailProvider: string, imapHost: string): EnvConfig['actionMode'] {
+  return emailProvider === 'imap' && !imapHost.toLowerCase().includes('gmail') ? 'move' : 'label';
 }
 
 export const config: EnvConfig = {
@@ -41,18 +80,56 @@ export const config: EnvConfig = {
   imapHost: process.env.IMAP_HOST || 'imap.gmail.com',
   imapPort: parseInt(process.env.IMAP_PORT || '993', 10),
   imapTls: process.env.IMAP_TLS === 'true',
+  // Used to send mailto: unsubscribe requests; defaults to the IMAP host's SMTP counterpart
+  smtpHost: process.env.SMTP_HOST || (process.env.IMAP_HOST || 'imap.gmail.com').replace(/^imap\./, 'smtp.'),
+  smtpPort: parseInt(process.env.SMTP_PORT || '587', 10),
+  smtpSecure: process.env.SMTP_SECURE === 'true',
+  // Log in with OAuth2 (XOAUTH2) once a Google OAuth client is configured, otherwise with the password
+  imapAuth: (process.env.IMAP_AUTH as 'password' | 'oauth2') || (process.env.GMAIL_CLIENT_ID ? 'oauth2' : 'password'),
+  gmailClientId: process.env.GMAIL_CLIENT_ID || '',
+  gmailClientSecret: process.env.GMAIL_CLIENT_SECRET || '',
+  tokenEncryptionKey: process.env.TOKEN_ENCRYPTION_KEY || '',
+
+  // Classification (default to the offline model when no OpenAI key is configured)
+  classifierBackend: (process.env.CLASSIFIER_BACKEND as 'openai' | 'local') || (process.env.OPENAI_API_KEY ? 'openai' : 'local'),
+  openaiApiKey: process.env.OPENAI_API_KEY || '',
+  classifyConcurrency: parseInt(process.env.CLASSIFY_CONCURRENCY || '5', 10),
+  classifyRequestsPerMinute: parseInt(process.env.CLASSIFY_REQUESTS_PER_MINUTE || '60', 10),
+  classifyMaxRetries: parseInt(process.env.CLASSIFY_MAX_RETRIES || '5', 10),
+  // OpenAI tokens one run may use; 0 for no limit
+  classifyTokenBudget: parseInt(process.env.CLASSIFY_TOKEN_BUDGET || '0', 10),
 
   // Processing Settings
   maxEmailAgeDays: parseInt(process.env.MAX_EMAIL_AGE_DAYS || '30', 10),
   batchSize: parseInt(process.env.BATCH_SIZE || '50', 10),
   checkIntervalMinutes: parseInt(process.env.CHECK_INTERVAL_MINUTES || '15', 10),
+  watchNewMail: process.env.IMAP_IDLE !== 'false',
+  newMailPollSeconds: parseInt(process.env.NEW_MAIL_POLL_SECONDS || '60', 10),
   classificationConfidenceThreshold: parseFloat(process.env.CLASSIFICATION_CONFIDENCE_THRESHOLD || '0.85'),
+  headerScoreThreshold: parseFloat(process.env.HEADER_SCORE_THRESHOLD || '0.9'),
+  reviewLabel: process.env.REVIEW_LABEL || 'Review',
+  actionMode: (process.env.ACTION_MODE as 'label' | 'move' | 'copy+flag')
+    || defaultActionMode(process.env.EMAIL_PROVIDER || 'imap', process.env.IMAP_HOST || 'imap.gmail.com'),
   deletionDelayDays: parseInt(process.env.DELETION_DELAY_DAYS || '7', 10),
+  deleteFromAdvertisingDays: parseInt(process.env.DELETE_FROM_ADVERTISING_DAYS || '60', 10),
+  cleanupIntervalMinutes: parseInt(process.env.CLEANUP_INTERVAL_MINUTES || '1440', 10),
+  dashboardPort: parseInt(process.env.DASHBOARD_PORT || '8025', 10),
+  unsubscribe: process.env.UNSUBSCRIBE === 'true',
+  // Deleted emails go to the Trash unless permanent deletion is explicitly enabled
+  hardDelete: process.env.HARD_DELETE === 'true',
+  backupBeforeDelete: process.env.BACKUP_BEFORE_DELETE !== 'false',
+  dryRun: process.env.DRY_RUN === 'true',
+  // Accounts processed at the same time when an accounts file lists several
+  accountConcurrency: parseInt(process.env.ACCOUNT_CONCURRENCY || '1', 10),
 
   // Local Storage
   dataDir: process.env.DATA_DIR || defaultDataDir,
+  accountsFile: process.env.ACCOUNTS_FILE || path.join(process.env.DATA_DIR || defaultDataDir, 'accounts.json'),
+  // Shared by all accounts, so a mailing sent to several of them is classified once
+  cacheDir: process.env.CACHE_DIR || process.env.DATA_DIR || defaultDataDir,
   logDir: process.env.LOG_DIR || path.join(defaultDataDir, 'logs'),
   tempDir: process.env.TEMP_DIR || path.join(defaultDataDir, 'temp'),
   maxLogSizeMb: parseInt(process.env.MAX_LOG_SIZE_MB || '100', 10),
   maxTempFilesMb: parseInt(process.env.MAX_TEMP_FILES_MB || '50', 10),
+  maxBackupMb: parseInt(process.env.MAX_BACKUP_MB || '500', 10),
 }; 
\ No newline at end of file
@@ -1,154 +1,111 @@
-import { ImapService } from './services/email/ImapService';
-import { OpenAIClassifier } from './services/classifier/OpenAIClassifier';
+import path from 'path';
+import { createMailProvider } from './services/email/createMailProvider';
+import { createClassifier, createScheduler } from './services/classifier/Classifier';
+import { ClassificationScheduler } from './services/classifier/ClassificationScheduler';
+import { EmailProcessor, ClassifySummary, CleanupSummary, processorOptionsFromConfig } from './services/processor/EmailProcessor';
+import { closeDatabase } from './services/storage/Database';
+import { acquireLock, RUN_LOCK_NAME } from './utils/lockFile';
+import { mapWithConcurrency } from './utils/concurrency';
+import { Account, loadAccounts } from './config/accounts';
+import { AuthorizationRequiredError } from './services/auth/GmailOAuth';
+import { config } from './config/env';
 import dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config();
 
-// Constants
-const ADVERTISING_LABEL = 'Advertising';
-const PROCESSED_LABEL = 'Processed';
-const BATCH_SIZE = 50;
-const MAX_EMAIL_AGE_DAYS = 365;  // Look back up to a year
-const DELETE_FROM_ADVERTISING_DAYS = parseInt(process.env.DELETE_FROM_ADVERTISING_DAYS || '60', 10);  // Delete advertising emails older than this
-const DRY_RUN = process.env.DRY_RUN === 'true';  // If true, don't actually delete emails
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY as string;
-
-if (!OPENAI_API_KEY) {
-  console.error('OPENAI_API_KEY not found in environment variables');
-  process.exit(1);
+interface AccountSummary {
+  account: string;
+  classify?: ClassifySummary;
+  cleanup?: CleanupSummary;
+  error?: string;
 }
 
-async function main() {
-  const imapService = new ImapService();
-  const classifier = new OpenAIClassifier(OPENAI_API_KEY);
+/**
+ * Run the feedback, classification and cleanup passes for one account.
+ * Errors are reported in the summary so the other accounts still run.
+ * @param scheduler OpenAI rate limit and token budget, shared by all accounts
+ */
+async function runAccount({ name, env }: Account, scheduler: ClassificationScheduler): Promise<AccountSummary> {
+  const summary: AccountSummary = { account: name };
+
+  // Refuse to overlap with another run or a running daemon for this account
+  let releaseLock: () => void;
+  try {
+    releaseLock = acquireLock(path.join(env.dataDir, RUN_LOCK_NAME));
+  } catch (error) {
+    console.error(`Skipping account ${name}:`, error instanceof Error ? error.message : error);
+    return { ...summary, error: error instanceof Error ? error.message : String(error) };
+  }
 
+  const mailProvider = createMailProvider(env);
   try {
-    console.log('Starting Email Deletifier main process...\n');
-    console.log('Configuration:');
-    console.log(`- Batch size: ${BATCH_SIZE} emails`);
-    console.log(`- Max email age: ${MAX_EMAIL_AGE_DAYS} days`);
-    console.log(`- Delete advertising emails older than: ${DELETE_FROM_ADVERTISING_DAYS} days`);
-    console.log(`- Dry run mode: ${DRY_RUN ? 'ON (no emails will be deleted)' : 'OFF (emails will be deleted)'}\n`);
+    console.log(`\n##### Account: ${name} (${env.emailUser}) #####\n`);
+    const options = processorOptionsFromConfig(env);
+    const processor = new EmailProcessor(mailProvider, createClassifier(env, options.categories, scheduler), options, env);
+    processor.logConfiguration();
 
     // Connect to Gmail
     console.log('Connecting to Gmail...');
-    await imapService.connect();
+    await mailProvider.connect();
     console.log('Successfully connected to Gmail!');
 
-    // Ensure labels exist
-    console.log(`\nEnsuring labels exist...`);
-    await imapService.ensureFolderExists(ADVERTISING_LABEL);
-    await imapService.ensureFolderExists(PROCESSED_LABEL);
-
-    // FIRST PASS: Process INBOX emails
-    console.log('\n=== FIRST PASS: Processing INBOX emails ===');
-    const inboxEmails = await imapService.fetchEmails({
-      maxAgeDays: MAX_EMAIL_AGE_DAYS,
-      batchSize: BATCH_SIZE,
-      includeRead: true,
-      includeUnread: true
-    });
-
-    let processedCount = 0;
-    let skippedCount = 0;
-    let advertisingCount = 0;
-    let notAdvertisingCount = 0;
-
-    for (const email of inboxEmails) {
-      console.log(`\nChecking email: ${email.subject}`);
-      
-      const result = await classifier.classifyEmail(email);
-      console.log(`Classification result: ${result.isAdvertising ? 'Advertising' : 'Not advertising'} (${result.confidence * 100}% confidence)`);
-      
-      if (result.isAdvertising) {
-        console.log(`Adding Advertising label: ${email.subject}`);
-        try {
-          await imapService.addLabel(email.id, ADVERTISING_LABEL);
-          console.log('Advertising label added successfully');
-          advertisingCount++;
-        } catch (err) {
-          console.error(`Failed to add Advertising label: ${email.subject}`, err);
-        }
-      }
-      
-      // Always add Processed label to mark this email as handled
-      try {
-        await imapService.addLabel(email.id, PROCESSED_LABEL);
-        console.log('Processed label added successfully');
-        notAdvertisingCount++;
-      } catch (err) {
-        console.error(`Failed to add Processed label: ${email.subject}`, err);
-      }
-      
-      processedCount++;
-    }
-
-    console.log('\nFirst Pass Summary:');
-    console.log(`- Processed: ${processedCount} emails`);
-    console.log(`- Skipped: ${skippedCount} already processed emails`);
-    console.log(`- Marked as Advertising: ${advertisingCount} emails`);
-    console.log(`- Marked as Processed: ${notAdvertisingCount} emails`);
-
-    // SECOND PASS: Check Advertising folder for old emails
-    console.log('\n=== SECOND PASS: Checking Advertising folder ===');
-    console.log(`Looking for advertising emails older than ${DELETE_FROM_ADVERTISING_DAYS} days...`);
-    if (DRY_RUN) {
-      console.log('DRY RUN MODE: No emails will be deleted');
-    }
-    
-    const advEmails = await imapService.fetchEmails({
-      maxAgeDays: MAX_EMAIL_AGE_DAYS,
-      batchSize: BATCH_SIZE,
-      includeRead: true,
-      includeUnread: true
-    }, ADVERTISING_LABEL);
-
-    console.log(`Found ${advEmails.length} emails in ${ADVERTISING_LABEL}`);
-    
-    let deletedCount = 0;
-    let skippedDeletionCount = 0;
-    
-    for (const email of advEmails) {
-      if (email.ageInDays >= DELETE_FROM_ADVERTISING_DAYS) {
-        console.log(`\n${DRY_RUN ? 'Would delete' : 'Deleting'} old advertising email: ${email.subject}`);
-        console.log(`- Age: ${email.ageInDays} days (threshold: ${DELETE_FROM_ADVERTISING_DAYS} days)`);
-        try {
-          if (!DRY_RUN) {
-            await imapService.deleteEmail(email.id, ADVERTISING_LABEL);
-            console.log('Delete successful');
-          } else {
-            console.log('(Dry run - no deletion performed)');
-          }
-          deletedCount++;
-        } catch (err) {
-          console.error(`Failed to delete email: ${email.subject}`, err);
-        }
-      } else {
-        console.log(`\nSkipping deletion of advertising email: ${email.subject}`);
-        console.log(`- Age: ${email.ageInDays} days (threshold: ${DELETE_FROM_ADVERTISING_DAYS} days)`);
-        skippedDeletionCount++;
-      }
-    }
-
-    console.log('\nSecond Pass Summary:');
-    console.log(`- Total advertising emails found: ${advEmails.length}`);
-    console.log(`- ${DRY_RUN ? 'Would delete' : 'Deleted'}: ${deletedCount} old advertising emails`);
-    console.log(`- Skipped deletion: ${skippedDeletionCount} emails (too new)`);
-    if (DRY_RUN) {
-      console.log('\nDRY RUN MODE: No emails were actually deleted');
-    }
+    await processor.prepare();
+    await processor.feedbackPass();
+    summary.classify = await processor.classifyPass();
+    summary.cleanup = await processor.cleanupPass();
 
   } catch (error) {
-    console.error('Error in main process:', error);
+    if (error instanceof AuthorizationRequiredError) {
+      console.error(`\n${error.message}`);
+    } else {
+      console.error(`Error processing account ${name}:`, error);
+    }
+    summary.error = error instanceof Error ? error.message : String(error);
   } finally {
     try {
-      await imapService.disconnect();
+      await mailProvider.disconnect();
       console.log('Disconnected from Gmail');
     } catch (error) {
       console.error('Error during disconnect:', error);
     }
+    releaseLock();
+  }
+  return summary;
+}
+
+function logAccountSummaries(summaries: AccountSummary[]): void {
+  console.log('\n=== ACCOUNTS SUMMARY ===');
+  for (const { account, classify, cleanup, error } of summaries) {
+    const counts = [
+      classify && `processed ${classify.processed}, advertising ${classify.advertising}, review ${classify.review}`,
+      classify?.failed && `not classified ${classify.failed}`,
+      cleanup && `queued ${cleanup.queued}, deleted ${cleanup.deleted}`
+    ].filter(Boolean).join(', ');
+    console.log(`- ${account}: ${counts || 'nothing processed'}${error ? ` (FAILED: ${error})` : ''}`);
+  }
+}
+
+async function main() {
+  console.log('Starting Email Deletifier main process...\n');
+  const { accounts, concurrency } = loadAccounts();
+  if (accounts.length > 1) {
+    console.log(`Processing ${accounts.length} accounts, ${Math.min(concurrency, accounts.length)} at a time`);
+  }
+
+  try {
+    // One rate limit and budget for the whole run, however many accounts run at once
+    const scheduler = createScheduler(config);
+    const summaries = await mapWithConcurrency(accounts, concurrency, account => runAccount(account, scheduler));
+    if (summaries.length > 1) {
+      logAccountSummaries(summaries);
+    }
+    if (summaries.some(summary => summary.error)) {
+      process.exitCode = 1;
+    }
+  } finally {
+    closeDatabase();
   }
 }
 
-main().catch(console.error); 
\ No newline at end of file
+main().catch(console.error);
@@ -0,0 +1,223 @@
+import http from 'http';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { config, EnvConfig } from '../../config/env';
+import { TokenStore } from './TokenStore';
+
+/** Full IMAP access, the only scope Gmail accepts for XOAUTH2 */
+export const GMAIL_IMAP_SCOPE = 'https://mail.google.com/';
+
+export interface OAuthEndpoints {
+  authUrl: string;
+  tokenUrl: string;
+}
+
+export const GOOGLE_ENDPOINTS: OAuthEndpoints = {
+  authUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+  tokenUrl: 'https://oauth2.googleapis.com/token'
+};
+
+/** How long the consent command waits for the browser to come back */
+const CONSENT_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Refresh access tokens this long before Google says they expire */
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * The account has no usable refresh token: consent was never given,
+ * was revoked, or expired. Running the authorize command fixes it.
+ */
+export class AuthorizationRequiredError extends Error {
+  constructor(user: string, reason: string) {
+    super(`Gmail authorization for ${user} is needed: ${reason}. Run "npm run cli -- authorize" (with --account <name> for one of several accounts) to sign in again.`);
+    this.name = 'AuthorizationRequiredError';
+  }
+}
+
+interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+  error?: string;
+  error_description?: string;
+}
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * The SASL XOAUTH2 initial response for IMAP
+ */
+export function buildXOAuth2Token(user: string, accessToken: string): string {
+  return Buffer.from(`user=${user}\x01auth=Bearer ${accessToken}\x01\x01`).toString('base64');
+}
+
+/**
+ * OAuth2 for Gmail IMAP with GMAIL_CLIENT_ID/GMAIL_CLIENT_SECRET.
+ * authorize() runs the one-time consent in the browser through a loopback
+ * redirect and stores the refresh token encrypted in DATA_DIR; getAccessToken()
+ * then refreshes short-lived access tokens as needed.
+ */
+export class GmailOAuth {
+  private env: EnvConfig;
+  private store: TokenStore;
+  private endpoints: OAuthEndpoints;
+  private accessToken: string | null = null;
+  private expiresAt: number = 0;
+
+  constructor(env: EnvConfig = config, store: TokenStore = new TokenStore(env.dataDir, env.tokenEncryptionKey), endpoints: OAuthEndpoints = GOOGLE_ENDPOINTS) {
+    this.env = env;
+    this.store = store;
+    this.endpoints = endpoints;
+  }
+
+  private requireClient(): void {
+    if (!this.env.gmailClientId || !this.env.gmailClientSecret) {
+      throw new Error('GMAIL_CLIENT_ID and GMAIL_CLIENT_SECRET are required for OAuth2 (create a "Desktop app" OAuth client in the Google Cloud console)');
+    }
+  }
+
+  /**
+   * A valid access token, refreshed with the stored refresh token when needed
+   * @throws AuthorizationRequiredError if the user has to consent again
+   */
+  async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.expiresAt - EXPIRY_MARGIN_MS) {
+      return this.accessToken;
+    }
+
+    this.requireClient();
+    const stored = this.store.load();
+    if (!stored) {
+      throw new AuthorizationRequiredError(this.env.emailUser, 'no refresh token has been stored yet');
+    }
+
+    const response = await this.requestToken({
+      grant_type: 'refresh_token',
+      refresh_token: stored.refreshToken,
+      client_id: this.env.gmailClientId,
+      client_secret: this.env.gmailClientSecret
+    });
+    if (response.error === 'invalid_grant') {
+      throw new AuthorizationRequiredError(this.env.emailUser, 'the refresh token has expired or been revoked');
+    }
+    if (!response.access_token) {
+      throw new Error(`Failed to refresh the Gmail access token: ${response.error_description || response.error || 'no access token returned'}`);
+    }
+
+    this.accessToken = response.access_token;
+    this.expiresAt = Date.now() + (response.expires_in ?? 3600) * 1000;
+    return this.accessToken;
+  }
+
+  /**
+   * The XOAUTH2 string to log in to IMAP with
+   */
+  async getXOAuth2Token(): Promise<string> {
+    return buildXOAuth2Token(this.env.emailUser, await this.getAccessToken());
+  }
+
+  /**
+   * Forget the cached access token, e.g. after the server rejected it
+   */
+  invalidate(): void {
+    this.accessToken = null;
+    this.expiresAt = 0;
+  }
+
+  /**
+   * One-time consent: wait on a loopback port for Google's redirect,
+   * exchange the code and store the refresh token
+   * @param showUrl Called with the consent URL to open in a browser
+   */
+  async authorize(showUrl: (url: string) => void = url => console.log(`Open this URL in a browser to authorize access:\n\n${url}\n`)): Promise<void> {
+    this.requireClient();
+
+    const state = base64url(crypto.randomBytes(16));
+    const verifier = base64url(crypto.randomBytes(32));
+    const challenge = base64url(crypto.createHash('sha256').update(verifier).digest());
+
+    let resolveCode!: (code: string) => void;
+    let rejectCode!: (error: Error) => void;
+    const codeReceived = new Promise<string>((resolve, reject) => {
+      resolveCode = resolve;
+      rejectCode = reject;
+    });
+
+    const server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://127.0.0.1');
+      if (url.pathname !== '/') {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const error = url.searchParams.get('error');
+      const code = url.searchParams.get('code');
+      const ok = !error && !!code && url.searchParams.get('state') === state;
+      res.writeHead(ok ? 200 : 400, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end(ok ? 'Email Deletifier is authorized. You can close this window.' : 'Authorization failed. See the terminal for details.');
+
+      if (error) rejectCode(new Error(`Authorization was not granted: ${error}`));
+      else if (!ok) rejectCode(new Error('Invalid authorization response (state mismatch or missing code)'));
+      else resolveCode(code as string);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const redirectUri = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+
+    const timeout = setTimeout(() => rejectCode(new Error('Timed out waiting for authorization in the browser')), CONSENT_TIMEOUT_MS);
+    try {
+      const params = new URLSearchParams({
+        client_id: this.env.gmailClientId,
+        redirect_uri: redirectUri,
+        response_type: 'code',
+        scope: GMAIL_IMAP_SCOPE,
+        access_type: 'offline',
+        prompt: 'consent',  // Always return a refresh token, also when re-consenting
+        state,
+        code_challenge: challenge,
+        code_challenge_method: 'S256',
+        ...(this.env.emailUser && { login_hint: this.env.emailUser })
+      });
+      showUrl(`${this.endpoints.authUrl}?${params}`);
+
+      const code = await codeReceived;
+      const response = await this.requestToken({
+        grant_type: 'authorization_code',
+        code,
+        code_verifier: verifier,
+        redirect_uri: redirectUri,
+        client_id: this.env.gmailClientId,
+        client_secret: this.env.gmailClientSecret
+      });
+      if (!response.refresh_token) {
+        throw new Error(`Google returned no refresh token: ${response.error_description || response.error || 'try again after removing the app at https://myaccount.google.com/permissions'}`);
+      }
+
+      this.store.save({
+        refreshToken: response.refresh_token,
+        scope: response.scope || GMAIL_IMAP_SCOPE,
+        createdAt: new Date().toISOString()
+      });
+      this.accessToken = response.access_token ?? null;
+      this.expiresAt = Date.now() + (response.expires_in ?? 0) * 1000;
+    } finally {
+      clearTimeout(timeout);
+      server.close();
+    }
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<TokenResponse> {
+    const response = await fetch(this.endpoints.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(params).toString()
+    });
+    const body = await response.json().catch(() => ({})) as TokenResponse;
+    if (!response.ok && !body.error) {
+      body.error = `HTTP ${response.status}`;
+    }
+    return body;
+  }
+}
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface StoredToken {
+  refreshToken: string;
+  scope: string;
+  createdAt: string;
+}
+
+/** On-disk format: the token JSON encrypted with AES-256-GCM */
+interface EncryptedFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * OAuth refresh token kept encrypted in DATA_DIR. The key is derived from
+ * TOKEN_ENCRYPTION_KEY when set, otherwise from a random key file created
+ * next to the token and readable only by the current user.
+ */
+export class TokenStore {
+  private readonly filePath: string;
+  private readonly keyPath: string;
+  private readonly passphrase: string;
+
+  constructor(dataDir: string, passphrase: string = '') {
+    this.filePath = path.join(dataDir, 'oauth-token.enc');
+    this.keyPath = path.join(dataDir, 'oauth-token.key');
+    this.passphrase = passphrase;
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  private secret(create: boolean): string | null {
+    if (this.passphrase) return this.passphrase;
+    if (fs.existsSync(this.keyPath)) return fs.readFileSync(this.keyPath, 'utf8').trim();
+    if (!create) return null;
+
+    const secret = crypto.randomBytes(32).toString('hex');
+    fs.mkdirSync(path.dirname(this.keyPath), { recursive: true });
+    fs.writeFileSync(this.keyPath, secret, { mode: 0o600 });
+    return secret;
+  }
+
+  /**
+   * The stored token, or null if there is none
+   * @throws If the file can't be decrypted, e.g. TOKEN_ENCRYPTION_KEY changed
+   */
+  load(): StoredToken | null {
+    const secret = this.secret(false);
+    if (!fs.existsSync(this.filePath) || !secret) {
+      return null;
+    }
+
+    try {
+      const file: EncryptedFile = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      const key = crypto.scryptSync(secret, Buffer.from(file.salt, 'base64'), 32);
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const json = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf8');
+      return JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Failed to decrypt the OAuth token in "${this.filePath}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  save(token: StoredToken): void {
+    const secret = this.secret(true) as string;
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', crypto.scryptSync(secret, salt, 32), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(token), 'utf8'), cipher.final()]);
+
+    const file: EncryptedFile = {
+      version: 1,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2) + '\n', { mode: 0o600 });
+  }
+
+  clear(): void {
+    fs.rmSync(this.filePath, { force: true });
+  }
+}
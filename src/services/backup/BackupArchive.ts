@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { EmailRef, RawMessage } from '../email/MailProvider';
+import { BackupStore, BackupEntry } from '../storage/BackupStore';
+import { config } from '../../config/env';
+
+const ARCHIVE_EXTENSION = '.mbox.gz';
+
+/**
+ * mbox separator line, e.g. "From MAILER-DAEMON Mon Jan  1 09:05:00 2024"
+ */
+function separatorLine(date: Date): string {
+  // toUTCString: "Mon, 01 Jan 2024 09:05:00 GMT"
+  const [weekday, day, month, year, time] = date.toUTCString().replace(',', '').split(' ');
+  return `From MAILER-DAEMON ${weekday} ${month} ${String(Number(day)).padStart(2, ' ')} ${time} ${year}\n`;
+}
+
+/**
+ * Quote lines starting with "From " (mboxrd), working on bytes as latin1
+ */
+function escapeFromLines(source: Buffer): Buffer {
+  return Buffer.from(source.toString('latin1').replace(/^(>*From )/gm, '>$1'), 'latin1');
+}
+
+function unescapeFromLines(source: Buffer): Buffer {
+  return Buffer.from(source.toString('latin1').replace(/^>(>*From )/gm, '$1'), 'latin1');
+}
+
+/**
+ * Raw copies of emails taken before the cleanup pass removes them.
+ *
+ * Each day's backups go to one gzip-compressed mbox file in the backup
+ * directory. Every message is its own gzip member, so the files decompress
+ * as ordinary mbox files (zcat, mutt) while single messages can be read back
+ * by offset. The oldest files are removed once the archive outgrows MAX_BACKUP_MB.
+ */
+export class BackupArchive {
+  private store: BackupStore;
+  private directory: string;
+  private maxBytes: number;
+
+  constructor(
+    store: BackupStore = new BackupStore(),
+    directory: string = path.join(config.dataDir, 'backups'),
+    maxSizeMb: number = config.maxBackupMb
+  ) {
+    this.store = store;
+    this.directory = directory;
+    this.maxBytes = maxSizeMb * 1024 * 1024;
+  }
+
+  get path(): string {
+    return this.directory;
+  }
+
+  /**
+   * Append an email to today's archive file
+   * @param folder The folder the email is being removed from
+   */
+  save(email: EmailRef, folder: string, message: RawMessage): BackupEntry {
+    fs.mkdirSync(this.directory, { recursive: true });
+    const file = `${new Date().toISOString().slice(0, 10)}${ARCHIVE_EXTENSION}`;
+    const filePath = path.join(this.directory, file);
+
+    const mboxEntry = Buffer.concat([
+      Buffer.from(separatorLine(message.date), 'latin1'),
+      escapeFromLines(message.source),
+      Buffer.from('\n', 'latin1')
+    ]);
+    const member = zlib.gzipSync(mboxEntry);
+    const offset = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+    fs.appendFileSync(filePath, member);
+
+    const entry = this.store.record({
+      messageId: email.messageId ?? null,
+      folder,
+      sender: email.sender,
+      subject: email.subject,
+      date: message.date.toISOString(),
+      flags: message.flags,
+      file,
+      offset,
+      length: member.length
+    });
+    this.rotate(file);
+    return entry;
+  }
+
+  /**
+   * Read a backed-up email back from the archive
+   */
+  read(entry: BackupEntry): RawMessage {
+    const filePath = path.join(this.directory, entry.file);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Backup file "${entry.file}" no longer exists`);
+    }
+
+    const member = Buffer.alloc(entry.length);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      fs.readSync(fd, member, 0, entry.length, entry.offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    const mboxEntry = zlib.gunzipSync(member);
+    // Drop the separator line and the blank line that ends the entry
+    const start = mboxEntry.indexOf('\n') + 1;
+    const source = unescapeFromLines(mboxEntry.subarray(start, mboxEntry.length - 1));
+    return { source, flags: entry.flags, date: new Date(entry.date) };
+  }
+
+  /**
+   * Remove the oldest archive files (never the current one) until the archive fits the size limit
+   */
+  private rotate(currentFile: string): void {
+    const files = fs.readdirSync(this.directory)
+      .filter(file => file.endsWith(ARCHIVE_EXTENSION))
+      .sort()
+      .map(file => ({ file, size: fs.statSync(path.join(this.directory, file)).size }));
+
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    for (const { file, size } of files) {
+      if (total <= this.maxBytes || file === currentFile) break;
+      fs.unlinkSync(path.join(this.directory, file));
+      this.store.removeFile(file);
+      total -= size;
+      console.log(`Removed old backup file ${file} (backups are limited to ${this.maxBytes / 1024 / 1024} MB)`);
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import OpenAI from 'openai';
+import { ClassifierUsage } from './Classifier';
+
+export interface SchedulerOptions {
+  concurrency: number;        // Requests in flight at once
+  requestsPerMinute: number;  // Sustained request rate (token bucket), bursts up to `concurrency`; 0 for no limit
+  maxRetries: number;         // Retries of a request after a rate limit, server or connection error
+  tokenBudget: number;        // API tokens a run may use; 0 for no limit
+}
+
+export interface RequestOptions {
+  estimatedTokens?: number;  // Reserved against the token budget while the request is in flight
+  usage?: ClassifierUsage;   // Also count the request here, e.g. one account's share of a shared scheduler
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 5,
+  requestsPerMinute: 60,
+  maxRetries: 5,
+  tokenBudget: 0
+};
+
+/** First retry delay, doubled for every further retry */
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+/**
+ * Thrown instead of calling the API once the run's token budget is used up
+ */
+export class BudgetExceededError extends Error {
+  constructor(budget: number) {
+    super(`The token budget of ${budget} tokens for this run is used up`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Rate limits (429, except an exhausted quota), server errors and dropped connections are worth retrying
+ */
+function isTransient(error: unknown): boolean {
+  if (error instanceof OpenAI.APIConnectionError) return true;
+  if (!(error instanceof OpenAI.APIError) || error.status === undefined) return false;
+  if (error.status === 429) return error.code !== 'insufficient_quota';
+  return error.status >= 500;
+}
+
+/**
+ * Milliseconds the server asked us to wait in a Retry-After header, or 0
+ */
+function retryAfterMs(error: unknown): number {
+  const header = error instanceof OpenAI.APIError ? error.headers?.get('retry-after') : null;
+  const seconds = header ? parseFloat(header) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : 0;
+}
+
+/**
+ * Runs classifier API requests with a concurrency limit and a token-bucket
+ * rate limit, retries transient failures with exponential backoff, and stops
+ * starting requests once the run's token budget is used up. One scheduler can
+ * be shared by the classifiers of several accounts, so the limits hold for
+ * the process as a whole.
+ */
+export class ClassificationScheduler {
+  private options: SchedulerOptions;
+  private active: number = 0;
+  private waiting: Array<() => void> = [];
+  private bucket: number;
+  private refilledAt: number;
+  private runUsage: ClassifierUsage = { requests: 0, retries: 0, tokens: 0 };
+  private reservedTokens: number = 0;  // Estimated tokens of the requests in flight
+
+  constructor(options: SchedulerOptions = DEFAULT_SCHEDULER_OPTIONS) {
+    this.options = { ...options, concurrency: Math.max(1, options.concurrency) };
+    this.bucket = this.options.concurrency;
+    this.refilledAt = Date.now();
+  }
+
+  /** API usage since startRun */
+  get usage(): ClassifierUsage {
+    return { ...this.runUsage };
+  }
+
+  /**
+   * Start a new run: the usage counts and the token budget start over
+   */
+  startRun(): void {
+    this.runUsage = { requests: 0, retries: 0, tokens: 0 };
+  }
+
+  /**
+   * Count tokens a request used against the budget
+   * @param usage Also count them here
+   */
+  recordTokens(tokens: number, usage?: ClassifierUsage): void {
+    this.runUsage.tokens += tokens;
+    if (usage) usage.tokens += tokens;
+  }
+
+  /**
+   * Run an API request once a slot and the rate limit allow it. Its estimated
+   * tokens are reserved before it is sent, so requests in flight together
+   * can't take the run past its budget.
+   * @throws BudgetExceededError without running the request once the budget would be exceeded,
+   *         or the request's own error when it isn't transient or keeps failing
+   */
+  async run<T>(request: () => Promise<T>, options: RequestOptions = {}): Promise<T> {
+    const { estimatedTokens = 0, usage } = options;
+    await this.acquireSlot();
+    try {
+      for (let attempt = 0; ; attempt++) {
+        this.reserveTokens(estimatedTokens);
+        let delay: number;
+        try {
+          await this.takeRateToken();
+          this.runUsage.requests++;
+          if (usage) usage.requests++;
+          return await request();
+        } catch (error) {
+          if (attempt >= this.options.maxRetries || !isTransient(error)) {
+            throw error;
+          }
+          // Jitter keeps concurrent requests from retrying in lockstep
+          const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+          delay = Math.max(backoff, retryAfterMs(error));
+          console.log(`Classifier request failed (${error instanceof Error ? error.message : String(error)}), retry ${attempt + 1} of ${this.options.maxRetries} in ${(delay / 1000).toFixed(1)}s`);
+          this.runUsage.retries++;
+          if (usage) usage.retries++;
+        } finally {
+          // The request has recorded what it really used by now
+          this.reservedTokens -= estimatedTokens;
+        }
+        await sleep(delay);
+      }
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * @throws BudgetExceededError if the tokens used and reserved so far leave no room for the estimate
+   */
+  private reserveTokens(estimatedTokens: number): void {
+    const { tokenBudget } = this.options;
+    if (tokenBudget > 0 && this.runUsage.tokens + this.reservedTokens + Math.max(estimatedTokens, 1) > tokenBudget) {
+      throw new BudgetExceededError(tokenBudget);
+    }
+    this.reservedTokens += estimatedTokens;
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.options.concurrency) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  /** Hand the slot to the next waiting request, if any */
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async takeRateToken(): Promise<void> {
+    const perMs = this.options.requestsPerMinute / 60000;
+    if (perMs <= 0) return;
+
+    for (;;) {
+      const now = Date.now();
+      this.bucket = Math.min(this.options.concurrency, this.bucket + (now - this.refilledAt) * perMs);
+      this.refilledAt = now;
+      if (this.bucket >= 1) {
+        this.bucket -= 1;
+        return;
+      }
+      await sleep(Math.ceil((1 - this.bucket) / perMs));
+    }
+  }
+}
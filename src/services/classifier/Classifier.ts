@@ -0,0 +1,103 @@
+import path from 'path';
+import { Email } from '../email/MailProvider';
+import { config, EnvConfig } from '../../config/env';
+import { OpenAIClassifier } from './OpenAIClassifier';
+import { LocalClassifier } from './LocalClassifier';
+import { FeedbackStore } from '../storage/FeedbackStore';
+import { ClassificationScheduler, SchedulerOptions } from './ClassificationScheduler';
+import { ClassificationCache } from '../storage/ClassificationCache';
+import { openDatabase, databasePath } from '../storage/Database';
+import { Category, loadTaxonomy } from './taxonomy';
+
+export interface ClassificationResult {
+  category: string;                 // Name of a category in the taxonomy
+  isAdvertising: boolean;           // Whether the category is "advertising"
+  confidence: number;               // Confidence in the chosen category
+  scores?: Record<string, number>;  // Confidence for each category, when the backend provides it
+  reason: string;
+  cached?: boolean;                 // Whether the result came from the classification cache; unset without a cache
+}
+
+/**
+ * A labeled email used to teach a classifier, e.g. a user correction
+ */
+export interface TrainingExample {
+  subject: string;
+  sender: string;
+  body: string;
+  isAdvertising: boolean;
+  category?: string;  // Defaults to advertising or personal, following isAdvertising
+}
+
+export interface BatchClassification {
+  results: Map<string, ClassificationResult>;  // By email ID
+  failures: Map<string, Error>;                // Emails that could not be classified, by email ID
+}
+
+/**
+ * Classifier API calls made during a run
+ */
+export interface ClassifierUsage {
+  requests: number;
+  retries: number;
+  tokens: number;
+}
+
+/**
+ * Common interface for all classification backends
+ */
+export interface Classifier {
+  /** Identifier of the model in use, e.g. "gpt-4.1-nano" or "local-naive-bayes" */
+  readonly modelName: string;
+  /** API usage since startRun; always zero for backends that run locally */
+  readonly usage: ClassifierUsage;
+  /** Throws if the email could not be classified */
+  classifyEmail(email: Email): Promise<ClassificationResult>;
+  classifyBatch(emails: Email[]): Promise<BatchClassification>;
+  /** Learn from labeled examples (retraining or few-shot prompting, depending on the backend) */
+  train(examples: TrainingExample[]): Promise<void>;
+  /** Start a new run: usage counts and the per-run budget start over */
+  startRun(): void;
+}
+
+/**
+ * Create a scheduler for the OpenAI requests from the CLASSIFY_* settings
+ */
+export function createScheduler(env: EnvConfig = config): ClassificationScheduler {
+  return new ClassificationScheduler(schedulerOptions(env));
+}
+
+function schedulerOptions(env: EnvConfig): SchedulerOptions {
+  return {
+    concurrency: env.classifyConcurrency,
+    requestsPerMinute: env.classifyRequestsPerMinute,
+    maxRetries: env.classifyMaxRetries,
+    tokenBudget: env.classifyTokenBudget
+  };
+}
+
+/**
+ * Create the classifier backend selected by CLASSIFIER_BACKEND
+ * @param env The configuration to read the backend settings from
+ * @param categories The taxonomy to classify into
+ * @param scheduler Scheduler shared with the classifiers of other accounts; by default the
+ *                  classifier gets its own, and its budget starts over with every run
+ */
+export function createClassifier(
+  env: EnvConfig = config,
+  categories: Category[] = loadTaxonomy(path.join(env.dataDir, 'categories.json'), env),
+  scheduler: ClassificationScheduler | null = null
+): Classifier {
+  const feedbackStore = new FeedbackStore(openDatabase(databasePath(env.dataDir)));
+  if (env.classifierBackend === 'local') {
+    return new LocalClassifier(path.join(env.dataDir, 'local-model.json'), categories, feedbackStore.allCorrections());
+  }
+
+  if (!env.openaiApiKey) {
+    throw new Error('OPENAI_API_KEY is required when CLASSIFIER_BACKEND=openai (use CLASSIFIER_BACKEND=local to run offline)');
+  }
+  // Recent user corrections become few-shot examples in the prompt
+  const corrections = feedbackStore.recentCorrections();
+  const cache = new ClassificationCache(openDatabase(databasePath(env.cacheDir)));
+  return new OpenAIClassifier(env.openaiApiKey, corrections, categories, cache, scheduler ?? schedulerOptions(env));
+}
@@ -0,0 +1,221 @@
+import fs from 'fs';
+import path from 'path';
+import { Email } from '../email/MailProvider';
+import { Classifier, ClassificationResult, TrainingExample, BatchClassification, ClassifierUsage } from './Classifier';
+import { Category, defaultTaxonomy, exampleCategory, ADVERTISING_CATEGORY, DEFAULT_CATEGORY } from './taxonomy';
+import { SEED_EXAMPLES } from './seedExamples';
+import { config } from '../../config/env';
+import { extractAddress, extractDomain } from '../../utils/address';
+
+interface ClassCounts {
+  documents: number;
+  totalTokens: number;
+  tokens: Record<string, number>;
+}
+
+interface LocalModel {
+  version: number;
+  classes: Record<string, ClassCounts>;  // Keyed by category name
+}
+
+const MODEL_VERSION = 2;
+const MODEL_NAME = 'local-naive-bayes';
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'you', 'your', 'with', 'this', 'that', 'are', 'our',
+  'was', 'have', 'has', 'from', 'will', 'all', 'not', 'but', 'can', 'any'
+]);
+
+/**
+ * Turn an email into the bag of features used by the model: subject and body
+ * words, the sender's domain and mailbox name, and a few structural signals.
+ */
+export function extractFeatures(email: Pick<Email, 'subject' | 'sender' | 'body'>): string[] {
+  const features: string[] = [];
+
+  const tokenize = (text: string): string[] =>
+    text
+      .replace(/<[^>]+>/g, ' ')
+      .toLowerCase()
+      .split(/[^a-z0-9$%]+/)
+      .filter(token => token.length >= 3 && token.length <= 20 && !STOP_WORDS.has(token));
+
+  tokenize(email.subject).forEach(token => features.push(`subject:${token}`));
+  tokenize(email.body).forEach(token => features.push(token));
+
+  const address = extractAddress(email.sender);
+  const domain = extractDomain(email.sender);
+  const localPart = domain ? address.slice(0, address.length - domain.length - 1) : '';
+  if (domain) {
+    features.push(`domain:${domain}`);
+    // Also include the registrable part so subdomains share evidence
+    const baseDomain = domain.split('.').slice(-2).join('.');
+    if (baseDomain !== domain) {
+      features.push(`domain:${baseDomain}`);
+    }
+  }
+  if (localPart) {
+    features.push(`mailbox:${localPart}`);
+  }
+
+  // Structural signals
+  if (/unsubscribe/i.test(email.body)) features.push('signal:unsubscribe');
+  if (/\d+\s?%/.test(email.subject)) features.push('signal:percent-in-subject');
+  if (/!/.test(email.subject)) features.push('signal:exclamation-in-subject');
+  if (/^(re|fwd?):/i.test(email.subject.trim())) features.push('signal:reply');
+
+  return features;
+}
+
+/**
+ * Offline classifier: a multinomial naive Bayes model over tokens, sender
+ * domain and structural features. Runs entirely on-device; the model is
+ * stored as JSON in DATA_DIR and can be retrained from user corrections.
+ * Only categories with training examples can be predicted.
+ */
+export class LocalClassifier implements Classifier {
+  readonly modelName = MODEL_NAME;
+  private readonly modelPath: string;
+  private readonly categories: Set<string>;
+  private readonly corrections: TrainingExample[];
+  private model: LocalModel;
+
+  /**
+   * @param corrections Every user correction so far, learned again along with the seed
+   *                    examples whenever the model has to be rebuilt
+   */
+  constructor(
+    modelPath: string = path.join(config.dataDir, 'local-model.json'),
+    categories: Category[] = defaultTaxonomy(),
+    corrections: TrainingExample[] = []
+  ) {
+    this.modelPath = modelPath;
+    this.categories = new Set(categories.map(category => category.name));
+    this.corrections = corrections;
+    this.model = this.loadModel();
+    console.log(`Using local model: ${this.modelPath}`);
+  }
+
+  private emptyModel(): LocalModel {
+    return { version: MODEL_VERSION, classes: {} };
+  }
+
+  private loadModel(): LocalModel {
+    if (fs.existsSync(this.modelPath)) {
+      try {
+        const model = JSON.parse(fs.readFileSync(this.modelPath, 'utf8')) as LocalModel;
+        if (model.version === MODEL_VERSION) {
+          return model;
+        }
+        console.log(`Local model version changed, retraining from seed examples and ${this.corrections.length} corrections`);
+      } catch (error) {
+        console.error(`Failed to load local model, retraining from seed examples and ${this.corrections.length} corrections:`, error);
+      }
+    }
+
+    this.model = this.emptyModel();
+    this.addExamples([...SEED_EXAMPLES, ...this.corrections]);
+    return this.model;
+  }
+
+  private addExamples(examples: TrainingExample[]): void {
+    for (const example of examples) {
+      const category = exampleCategory(example);
+      const counts = this.model.classes[category] ??= { documents: 0, totalTokens: 0, tokens: {} };
+      counts.documents++;
+      for (const feature of extractFeatures(example)) {
+        counts.tokens[feature] = (counts.tokens[feature] || 0) + 1;
+        counts.totalTokens++;
+      }
+    }
+  }
+
+  /**
+   * Add labeled examples to the model and persist it
+   * @param examples The examples to learn from
+   */
+  async train(examples: TrainingExample[]): Promise<void> {
+    this.addExamples(examples);
+    await this.save();
+  }
+
+  async save(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.modelPath), { recursive: true });
+    await fs.promises.writeFile(this.modelPath, JSON.stringify(this.model));
+  }
+
+  async classifyEmail(email: Email): Promise<ClassificationResult> {
+    // Categories removed from the taxonomy keep their counts but are never predicted
+    const classes = Object.entries(this.model.classes)
+      .filter(([name, counts]) => this.categories.has(name) && counts.documents > 0);
+    if (classes.length === 0) {
+      return { category: DEFAULT_CATEGORY, isAdvertising: false, confidence: 0, reason: 'Local model has no training data' };
+    }
+
+    const totalDocuments = classes.reduce((sum, [, counts]) => sum + counts.documents, 0);
+    const vocabulary = new Set(classes.flatMap(([, counts]) => Object.keys(counts.tokens))).size;
+    const features = extractFeatures(email).filter(feature => classes.some(([, counts]) => feature in counts.tokens));
+
+    // Log-probabilities with Laplace smoothing
+    const logProbability = (counts: ClassCounts, feature: string) =>
+      Math.log(((counts.tokens[feature] || 0) + 1) / (counts.totalTokens + vocabulary));
+    const logScores = classes.map(([name, counts]) => ({
+      name,
+      counts,
+      score: features.reduce(
+        (sum, feature) => sum + logProbability(counts, feature),
+        Math.log((counts.documents + 1) / (totalDocuments + classes.length))
+      )
+    }));
+
+    // Softmax over the log scores gives a confidence per category
+    const maxScore = Math.max(...logScores.map(c => c.score));
+    const total = logScores.reduce((sum, c) => sum + Math.exp(c.score - maxScore), 0);
+    const scores: Record<string, number> = {};
+    logScores.forEach(c => scores[c.name] = Math.exp(c.score - maxScore) / total);
+
+    const ranked = [...logScores].sort((a, b) => b.score - a.score);
+    const [best, runnerUp] = ranked;
+
+    // Features that favour the winning category over the runner-up
+    const signals = runnerUp
+      ? [...new Set(features)]
+        .map(feature => ({ feature, weight: logProbability(best.counts, feature) - logProbability(runnerUp.counts, feature) }))
+        .filter(c => c.weight > 0)
+        .sort((a, b) => b.weight - a.weight)
+        .map(c => c.feature)
+        .slice(0, 5)
+      : [];
+
+    return {
+      category: best.name,
+      isAdvertising: best.name === ADVERTISING_CATEGORY,
+      confidence: scores[best.name],
+      scores,
+      reason: signals.length > 0
+        ? `Local model: ${best.name} signals ${signals.join(', ')}`
+        : 'Local model: no known features, using prior'
+    };
+  }
+
+  async classifyBatch(emails: Email[]): Promise<BatchClassification> {
+    const results = new Map<string, ClassificationResult>();
+    const failures = new Map<string, Error>();
+    for (const email of emails) {
+      try {
+        results.set(email.id, await this.classifyEmail(email));
+      } catch (error) {
+        failures.set(email.id, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+    return { results, failures };
+  }
+
+  get usage(): ClassifierUsage {
+    return { requests: 0, retries: 0, tokens: 0 };
+  }
+
+  startRun(): void {
+    // Runs locally, nothing to limit
+  }
+}
@@ -1,109 +1,240 @@
+import crypto from 'crypto';
 import OpenAI from 'openai';
-import { Email } from '../email/ImapService';
+import { Email } from '../email/MailProvider';
+import { Classifier, ClassificationResult, TrainingExample, BatchClassification, ClassifierUsage } from './Classifier';
+import { ClassificationScheduler, SchedulerOptions, DEFAULT_SCHEDULER_OPTIONS } from './ClassificationScheduler';
+import { scoreHeaders } from './headerSignals';
+import { Category, defaultTaxonomy, exampleCategory, ADVERTISING_CATEGORY } from './taxonomy';
+import { ClassificationCache, cacheKeys } from '../storage/ClassificationCache';
 import dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config();
 
-export interface ClassificationResult {
-  isAdvertising: boolean;
-  confidence: number;
-  reason: string;
+export { ClassificationResult };
+
+// Limit how many user corrections are sent along with every request
+const MAX_FEW_SHOT_EXAMPLES = 10;
+const FEW_SHOT_BODY_LENGTH = 500;
+
+// Bump when the request changes in a way the prompt text doesn't show, e.g. the
+// email fields sent, so cached results from the old request are not reused
+const PROMPT_VERSION = 1;
+
+// Rough size of a request, reserved against the token budget before it is sent:
+// about four characters per token, plus the JSON response
+const CHARS_PER_TOKEN = 4;
+const ESTIMATED_RESPONSE_TOKENS = 200;
+
+function estimateTokens(messages: OpenAI.Chat.ChatCompletionMessageParam[]): number {
+  const chars = messages.reduce((total, message) => total + (typeof message.content === 'string' ? message.content.length : 0), 0);
+  return Math.ceil(chars / CHARS_PER_TOKEN) + ESTIMATED_RESPONSE_TOKENS;
 }
 
-export class OpenAIClassifier {
-  private openai: OpenAI;
-  private readonly model: string;
-  private readonly CLASSIFICATION_PROMPT = `You are an email classification system. Your task is to determine if an email is advertising/promotional in nature.
+function buildPrompt(categories: Category[]): string {
+  const categoryList = categories
+    .map(category => `- "${category.name}": ${category.description}`)
+    .join('\n');
 
-Consider these factors:
+  return `You are an email classification system. Your task is to sort an email into exactly one of these categories:
+${categoryList}
+
+For advertising, consider these factors:
 1. Is the primary purpose to sell or promote something?
 2. Does it contain marketing language, special offers, or calls to action?
 3. Is it from a business trying to get you to buy or sign up?
 4. Does it contain unsubscribe links or marketing disclaimers?
+5. Do its headers mark it as bulk mail? A bulk mail score is provided; newsletters, receipts and notifications are bulk mail too, so use it as a hint rather than the answer.
 
 Respond with a JSON object in this format:
 {
-  "isAdvertising": boolean,
-  "confidence": number (0-1),
+  "category": one of ${categories.map(category => `"${category.name}"`).join(', ')},
+  "confidence": number (0-1), your confidence in the chosen category,
+  "scores": { "<category>": number (0-1) for every category },
   "reason": "brief explanation"
 }
 
 Only respond with the JSON object, no other text.`;
+}
+
+export class OpenAIClassifier implements Classifier {
+  private openai: OpenAI;
+  private readonly model: string;
+  private examples: TrainingExample[];
+  private readonly categories: Category[];
+  private readonly CLASSIFICATION_PROMPT: string;
+  private cache: ClassificationCache | null;
+  private readonly cacheVersion: string;
+  private scheduler: ClassificationScheduler;
+  private ownsScheduler: boolean;
+  private runUsage: ClassifierUsage = { requests: 0, retries: 0, tokens: 0 };
 
-  constructor(apiKey: string) {
-    this.openai = new OpenAI({ apiKey });
+  /**
+   * @param apiKey OpenAI API key
+   * @param examples User corrections to include as few-shot examples in the prompt
+   * @param categories The taxonomy to classify into
+   * @param cache Results of earlier runs, consulted before calling the API
+   * @param scheduler Concurrency, rate limit, retries and token budget of the API calls: a scheduler
+   *                  shared with other classifiers, or the options of one for this classifier alone
+   */
+  constructor(
+    apiKey: string,
+    examples: TrainingExample[] = [],
+    categories: Category[] = defaultTaxonomy(),
+    cache: ClassificationCache | null = null,
+    scheduler: ClassificationScheduler | SchedulerOptions = DEFAULT_SCHEDULER_OPTIONS
+  ) {
+    // Retries are left to the scheduler, which backs off across all requests in flight
+    this.openai = new OpenAI({ apiKey, maxRetries: 0 });
+    this.examples = examples.slice(-MAX_FEW_SHOT_EXAMPLES);
+    this.categories = categories;
+    this.CLASSIFICATION_PROMPT = buildPrompt(categories);
     // Use configured model or fallback to gpt-4.1-nano
     this.model = process.env.OPENAI_MODEL || 'gpt-4.1-nano';
+    this.cache = cache;
+    this.ownsScheduler = !(scheduler instanceof ClassificationScheduler);
+    this.scheduler = scheduler instanceof ClassificationScheduler ? scheduler : new ClassificationScheduler(scheduler);
+    this.cacheVersion = this.buildCacheVersion();
     console.log(`Using OpenAI model: ${this.model}`);
   }
 
+  get modelName(): string {
+    return this.model;
+  }
+
+  get usage(): ClassifierUsage {
+    return { ...this.runUsage };
+  }
+
+  startRun(): void {
+    this.runUsage = { requests: 0, retries: 0, tokens: 0 };
+    // A shared scheduler's budget covers the whole run of every account using it
+    if (this.ownsScheduler) this.scheduler.startRun();
+  }
+
+  /**
+   * Add corrected examples to the few-shot prompt (most recent ones win)
+   */
+  async train(examples: TrainingExample[]): Promise<void> {
+    this.examples = [...this.examples, ...examples].slice(-MAX_FEW_SHOT_EXAMPLES);
+  }
+
+  /**
+   * Cached results are only reused for the same model, PROMPT_VERSION and
+   * prompt with its categories. The few-shot corrections are left out: they
+   * belong to one account, and the cache is shared between accounts.
+   */
+  private buildCacheVersion(): string {
+    const hash = crypto.createHash('sha256').update(this.CLASSIFICATION_PROMPT).digest('hex').slice(0, 16);
+    return `${this.model}/v${PROMPT_VERSION}/${hash}`;
+  }
+
+  private fewShotMessages(): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return this.examples.flatMap((example): OpenAI.Chat.ChatCompletionMessageParam[] => [
+      {
+        role: "user",
+        content: `
+Subject: ${example.subject}
+From: ${example.sender}
+Body: ${example.body.slice(0, FEW_SHOT_BODY_LENGTH)}
+`
+      },
+      {
+        role: "assistant",
+        content: JSON.stringify({
+          category: exampleCategory(example),
+          confidence: 1,
+          reason: 'Corrected by the user'
+        })
+      }
+    ]);
+  }
+
+  /**
+   * Classify an email, from the cache when possible. Throws when the request
+   * fails after retries, or with BudgetExceededError once the run's token budget is used up.
+   */
   async classifyEmail(email: Email): Promise<ClassificationResult> {
-    try {
-      const emailContent = `
+    const keys = this.cache ? cacheKeys(email) : [];
+    const cached = this.cache?.get(keys, this.cacheVersion);
+    if (cached) {
+      return { ...cached, cached: true };
+    }
+
+    const messages = this.buildMessages(email);
+    const result = await this.scheduler.run(() => this.requestClassification(messages), {
+      estimatedTokens: estimateTokens(messages),
+      usage: this.runUsage
+    });
+    this.cache?.set(keys, this.cacheVersion, result);
+    return { ...result, cached: this.cache ? false : undefined };
+  }
+
+  private buildMessages(email: Email): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const headerScore = scoreHeaders(email);
+    const emailContent = `
 Subject: ${email.subject}
 From: ${email.sender}
 Date: ${email.date.toISOString()}
+Bulk mail score: ${headerScore.score}${headerScore.signals.length ? ` (${headerScore.signals.join(', ')})` : ''}
 Body: ${email.body}
 `;
 
-      const completion = await this.openai.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: "system", content: this.CLASSIFICATION_PROMPT },
-          { role: "user", content: emailContent }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.1 // Low temperature for more consistent results
-      });
-
-      const response = completion.choices[0]?.message?.content;
-      if (!response) {
-        throw new Error('No response from OpenAI');
-      }
+    return [
+      { role: "system", content: this.CLASSIFICATION_PROMPT },
+      ...this.fewShotMessages(),
+      { role: "user", content: emailContent }
+    ];
+  }
 
-      const result = JSON.parse(response) as ClassificationResult;
-      
-      // Validate the response format
-      if (typeof result.isAdvertising !== 'boolean' ||
-          typeof result.confidence !== 'number' ||
-          typeof result.reason !== 'string') {
-        throw new Error('Invalid response format from OpenAI');
-      }
+  private async requestClassification(messages: OpenAI.Chat.ChatCompletionMessageParam[]): Promise<ClassificationResult> {
+    const completion = await this.openai.chat.completions.create({
+      model: this.model,
+      messages,
+      response_format: { type: "json_object" },
+      temperature: 0.1 // Low temperature for more consistent results
+    });
+    this.scheduler.recordTokens(completion.usage?.total_tokens ?? 0, this.runUsage);
+
+    const response = completion.choices[0]?.message?.content;
+    if (!response) {
+      throw new Error('No response from OpenAI');
+    }
 
-      return result;
-    } catch (error) {
-      console.error('Error classifying email:', error);
-      // Return a safe default in case of errors
-      return {
-        isAdvertising: false,
-        confidence: 0,
-        reason: 'Error during classification'
-      };
+    const result = JSON.parse(response) as Partial<ClassificationResult>;
+
+    // Validate the response format
+    if (typeof result.category !== 'string' ||
+        typeof result.confidence !== 'number' ||
+        typeof result.reason !== 'string') {
+      throw new Error('Invalid response format from OpenAI');
+    }
+    if (!this.categories.some(category => category.name === result.category)) {
+      throw new Error(`Unknown category from OpenAI: ${result.category}`);
     }
+
+    return {
+      category: result.category,
+      isAdvertising: result.category === ADVERTISING_CATEGORY,
+      confidence: result.confidence,
+      scores: result.scores && typeof result.scores === 'object' ? result.scores : undefined,
+      reason: result.reason
+    };
   }
 
-  async classifyBatch(emails: Email[]): Promise<Map<string, ClassificationResult>> {
+  /**
+   * Classify emails concurrently, as far as the scheduler allows
+   */
+  async classifyBatch(emails: Email[]): Promise<BatchClassification> {
     const results = new Map<string, ClassificationResult>();
-    
-    // Process emails in parallel with a concurrency limit
-    const concurrencyLimit = 5;
-    for (let i = 0; i < emails.length; i += concurrencyLimit) {
-      const batch = emails.slice(i, i + concurrencyLimit);
-      const batchPromises = batch.map(email => 
-        this.classifyEmail(email).then(result => {
-          results.set(email.id, result);
-        })
-      );
-      
-      await Promise.all(batchPromises);
-      
-      // Add a small delay between batches to respect rate limits
-      if (i + concurrencyLimit < emails.length) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
+    const failures = new Map<string, Error>();
+    await Promise.all(emails.map(async email => {
+      try {
+        results.set(email.id, await this.classifyEmail(email));
+      } catch (error) {
+        failures.set(email.id, error instanceof Error ? error : new Error(String(error)));
       }
-    }
-
-    return results;
+    }));
+    return { results, failures };
   }
-} 
\ No newline at end of file
+}
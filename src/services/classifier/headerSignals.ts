@@ -0,0 +1,93 @@
+import { Email } from '../email/MailProvider';
+import { extractDomain } from '../../utils/address';
+
+export interface HeaderScore {
+  score: number;      // 0 (no bulk mail signals) to 1 (obvious bulk mail)
+  signals: string[];  // Human-readable description of each signal found
+  campaign: boolean;  // Sent through an ESP with one-click unsubscribe, the pattern of marketing campaigns
+}
+
+/** Bulk mail signals and how much each adds to the score */
+const WEIGHTS = {
+  listUnsubscribe: 0.3,
+  oneClickUnsubscribe: 0.1,
+  listId: 0.1,
+  bulkPrecedence: 0.25,
+  esp: 0.3,
+  trackingPixel: 0.15,
+  bounceDomain: 0.1,
+  replyToDomain: 0.05,
+  // Auto-generated mail is usually a notification or receipt, not marketing
+  autoSubmitted: -0.2
+};
+
+/**
+ * Find 1x1 or hidden images, the usual way marketing mail tracks opens
+ */
+export function hasTrackingPixel(html: string): boolean {
+  const images = html.match(/<img\b[^>]*>/gi) || [];
+  return images.some(tag =>
+    /\b(width|height)\s*=\s*["']?[01](px)?["'\s/>]/i.test(tag) ||
+    /style\s*=\s*["'][^"']*(display\s*:\s*none|(width|height)\s*:\s*[01]px)/i.test(tag)
+  );
+}
+
+/**
+ * Score how strongly an email's headers and HTML mark it as bulk mail
+ */
+export function scoreHeaders(email: Email): HeaderScore {
+  const headers = email.headers;
+  const signals: string[] = [];
+  let score = 0;
+  const add = (weight: number, signal: string) => {
+    score += weight;
+    signals.push(signal);
+  };
+
+  if (headers?.listUnsubscribe) {
+    add(WEIGHTS.listUnsubscribe, 'List-Unsubscribe header');
+    if (/one-click/i.test(headers.listUnsubscribePost || '')) {
+      add(WEIGHTS.oneClickUnsubscribe, 'one-click unsubscribe');
+    }
+  }
+  if (headers?.listId) {
+    add(WEIGHTS.listId, `List-Id ${headers.listId}`);
+  }
+  if (headers?.precedence && /^(bulk|list|junk)$/i.test(headers.precedence)) {
+    add(WEIGHTS.bulkPrecedence, `Precedence: ${headers.precedence.toLowerCase()}`);
+  }
+  if (headers?.esps.length) {
+    add(WEIGHTS.esp, `sent via ${headers.esps.join(', ')}`);
+  }
+  if (email.html && hasTrackingPixel(email.html)) {
+    add(WEIGHTS.trackingPixel, 'tracking pixel');
+  }
+
+  const fromDomain = extractDomain(email.sender);
+  const bounceDomain = headers?.returnPath ? extractDomain(headers.returnPath) : '';
+  if (fromDomain && bounceDomain && !sameOrganization(fromDomain, bounceDomain)) {
+    add(WEIGHTS.bounceDomain, `bounces handled by ${bounceDomain}`);
+  }
+  const replyToDomain = headers?.replyTo ? extractDomain(headers.replyTo) : '';
+  if (fromDomain && replyToDomain && !sameOrganization(fromDomain, replyToDomain)) {
+    add(WEIGHTS.replyToDomain, `replies go to ${replyToDomain}`);
+  }
+
+  if (headers?.autoSubmitted && !/^no$/i.test(headers.autoSubmitted)) {
+    add(WEIGHTS.autoSubmitted, `Auto-Submitted: ${headers.autoSubmitted}`);
+  }
+
+  return {
+    score: Math.round(Math.min(Math.max(score, 0), 1) * 100) / 100,
+    signals,
+    campaign: !!headers?.esps.length && !!headers.listUnsubscribe && /one-click/i.test(headers.listUnsubscribePost || '')
+  };
+}
+
+/**
+ * Whether two domains share their last two labels, e.g. mail.shop.com and shop.com
+ */
+function sameOrganization(a: string, b: string): boolean {
+  const base = (domain: string) => domain.split('.').slice(-2).join('.');
+  return base(a) === base(b);
+}
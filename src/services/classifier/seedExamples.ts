@@ -0,0 +1,149 @@
+import { TrainingExample } from './Classifier';
+
+/**
+ * Small built-in corpus used to bootstrap the local model before any
+ * user corrections have been recorded.
+ */
+export const SEED_EXAMPLES: TrainingExample[] = [
+  // Advertising
+  {
+    subject: '50% OFF everything - Limited Time Offer!',
+    sender: 'marketing@store.com',
+    body: 'Shop now and save 50% on all items. This exclusive offer ends tonight. Click here to shop. Unsubscribe from these emails.',
+    isAdvertising: true
+  },
+  {
+    subject: 'Flash sale: free shipping on your next order',
+    sender: 'deals@shop.example.com',
+    body: 'Don\'t miss out! Free shipping on orders over $25. Use promo code SAVE25 at checkout. View in browser. Unsubscribe.',
+    isAdvertising: true
+  },
+  {
+    subject: 'New arrivals you\'ll love',
+    sender: 'newsletter@fashionbrand.com',
+    body: 'Discover our new collection. Trending styles picked just for you. Shop the look today. Manage your email preferences or unsubscribe.',
+    isAdvertising: true
+  },
+  {
+    subject: 'Last chance: your exclusive discount expires soon',
+    sender: 'offers@travelsite.com',
+    body: 'Book now and get 30% off hotels. Limited availability, deal ends Sunday. Terms and conditions apply. Unsubscribe here.',
+    isAdvertising: true
+  },
+  {
+    subject: 'Upgrade to Premium today and save',
+    sender: 'promo@streamingservice.com',
+    body: 'Get 3 months of Premium for the price of one. Special offer for valued members. Upgrade now. To stop receiving promotional emails click unsubscribe.',
+    isAdvertising: true
+  },
+  {
+    subject: 'Black Friday deals are here',
+    sender: 'noreply@electronics.example.com',
+    body: 'Huge savings on laptops, TVs and more. Best prices of the year. Buy now while supplies last. Unsubscribe.',
+    isAdvertising: true
+  },
+  {
+    subject: 'You\'re invited: members-only sale',
+    sender: 'info@retailer.com',
+    body: 'As a loyal customer you get early access to our biggest sale. Save up to 70%. Shop now. Privacy policy. Unsubscribe.',
+    isAdvertising: true
+  },
+  {
+    subject: 'Weekly deals just for you',
+    sender: 'deals@grocery.example.com',
+    body: 'This week\'s specials: buy one get one free on selected items. Redeem your coupon in store or online. Unsubscribe from marketing emails.',
+    isAdvertising: true
+  },
+
+  // Not advertising
+  {
+    subject: 'Meeting tomorrow at 2 PM',
+    sender: 'colleague@company.com',
+    body: 'Hi, just a reminder about our team meeting tomorrow at 2 PM. Please bring your project updates. Best regards, John',
+    isAdvertising: false
+  },
+  {
+    subject: 'Your order #12345 has shipped',
+    sender: 'orders@amazon.com',
+    body: 'Your order has been shipped and is on its way. Track your package with the tracking number below. Estimated delivery Thursday.',
+    isAdvertising: false,
+    category: 'transactional'
+  },
+  {
+    subject: 'Re: dinner on Saturday?',
+    sender: 'friend@gmail.com',
+    body: 'Sounds great, see you at seven. Should I bring anything? Let me know.',
+    isAdvertising: false
+  },
+  {
+    subject: 'Your password was changed',
+    sender: 'security@accounts.example.com',
+    body: 'The password for your account was changed. If you did not make this change, please secure your account immediately.',
+    isAdvertising: false,
+    category: 'security'
+  },
+  {
+    subject: 'Invoice INV-2024-001 for your records',
+    sender: 'billing@hosting.example.com',
+    body: 'Thank you for your payment. Attached is your invoice for the period. Amount paid: $12.00. Payment method: card ending 4242.',
+    isAdvertising: false,
+    category: 'transactional'
+  },
+  {
+    subject: 'Pull request review requested',
+    sender: 'notifications@github.com',
+    body: 'You were requested to review a pull request. Please take a look at the changes when you have a moment.',
+    isAdvertising: false,
+    category: 'social'
+  },
+  {
+    subject: 'Quarterly report draft',
+    sender: 'manager@company.com',
+    body: 'Attached is the draft of the quarterly report. Could you review section three and send me your comments by Friday?',
+    isAdvertising: false
+  },
+  {
+    subject: 'Appointment confirmation',
+    sender: 'reception@dentalclinic.example.com',
+    body: 'This confirms your appointment on Monday at 9:30 AM. Please reply to this email if you need to reschedule.',
+    isAdvertising: false,
+    category: 'transactional'
+  },
+
+  // Other categories
+  {
+    subject: 'Anna commented on your photo',
+    sender: 'Facebook <notification@facebookmail.com>',
+    body: 'Anna commented on your photo: "Great shot!" See the comment and reply. You have 3 new notifications.',
+    isAdvertising: false,
+    category: 'social'
+  },
+  {
+    subject: 'You have a new connection request',
+    sender: 'LinkedIn <invitations@linkedin.com>',
+    body: 'Mark wants to connect with you. Accept the invitation to grow your network. View profile.',
+    isAdvertising: false,
+    category: 'social'
+  },
+  {
+    subject: 'This Week in TypeScript #112',
+    sender: 'TypeScript Weekly <editor@typescript-weekly.example.com>',
+    body: 'In this issue: a deep dive into variance annotations, three articles on monorepo tooling, and the release notes for the latest compiler. Read online.',
+    isAdvertising: false,
+    category: 'newsletter'
+  },
+  {
+    subject: 'The Morning Brief: what happened overnight',
+    sender: 'The Daily <newsletter@news.example.org>',
+    body: 'Good morning. Here are the stories you need to know today, plus our editors picks for the weekend reading list.',
+    isAdvertising: false,
+    category: 'newsletter'
+  },
+  {
+    subject: 'Your verification code is 482913',
+    sender: 'Accounts <no-reply@accounts.example.com>',
+    body: 'Use this code to sign in. The code expires in 10 minutes. If you did not request it, someone may be trying to access your account.',
+    isAdvertising: false,
+    category: 'security'
+  }
+];
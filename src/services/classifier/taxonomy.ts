@@ -0,0 +1,118 @@
+import fs from 'fs';
+import path from 'path';
+import { config, EnvConfig } from '../../config/env';
+import { TrainingExample } from './Classifier';
+
+/**
+ * A category emails can be classified into, with how it is filed and kept
+ */
+export interface Category {
+  name: string;                 // Identifier returned by the classifier, e.g. "social"
+  description: string;          // What belongs in the category; shown to the OpenAI classifier
+  label: string | null;         // Label/folder to file the email under; null leaves it alone
+  retentionDays: number | null; // Delete from the label after this many days; null keeps it forever
+}
+
+export const ADVERTISING_CATEGORY = 'advertising';
+/** Category used when nothing else fits, or the classifier fails */
+export const DEFAULT_CATEGORY = 'personal';
+
+export function defaultTaxonomy(env: EnvConfig = config): Category[] {
+  return [
+    {
+      name: ADVERTISING_CATEGORY,
+      description: 'Promotions, sales, offers and marketing trying to sell something',
+      label: 'Advertising',
+      retentionDays: env.deleteFromAdvertisingDays
+    },
+    {
+      name: 'newsletter',
+      description: 'Editorial newsletters, digests and blog updates the user subscribed to',
+      label: 'Newsletters',
+      retentionDays: null
+    },
+    {
+      name: 'social',
+      description: 'Notifications from social networks and community sites (likes, follows, comments, invitations)',
+      label: 'Social',
+      retentionDays: 14
+    },
+    {
+      name: 'transactional',
+      description: 'Receipts, invoices, order and shipping confirmations, bookings and account statements',
+      label: 'Receipts',
+      retentionDays: null
+    },
+    {
+      name: 'security',
+      description: 'Security alerts, sign-in notices, password resets and verification codes',
+      label: 'Security',
+      retentionDays: null
+    },
+    {
+      name: DEFAULT_CATEGORY,
+      description: 'Personal and work conversations and anything written to the user by a person',
+      label: null,
+      retentionDays: null
+    }
+  ];
+}
+
+/**
+ * Load the taxonomy from categories.json in DATA_DIR, or the default one.
+ * The advertising and personal categories are always present, since the
+ * feedback and cleanup passes and the classifier fallback rely on them.
+ */
+export function loadTaxonomy(
+  filePath: string = path.join(config.dataDir, 'categories.json'),
+  env: EnvConfig = config
+): Category[] {
+  const defaults = defaultTaxonomy(env);
+  if (!fs.existsSync(filePath)) {
+    return defaults;
+  }
+
+  let parsed: Array<Partial<Category>>;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to parse categories file "${filePath}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Categories file "${filePath}" must contain an array of categories`);
+  }
+
+  const categories: Category[] = parsed.map((entry, index) => {
+    if (!entry.name || !/^[a-z0-9_-]+$/.test(entry.name)) {
+      throw new Error(`Category ${index + 1} in "${filePath}" needs a lower-case name (letters, digits, - and _)`);
+    }
+    return {
+      name: entry.name,
+      description: entry.description || entry.name,
+      label: entry.label ?? null,
+      retentionDays: typeof entry.retentionDays === 'number' ? entry.retentionDays : null
+    };
+  });
+
+  for (const required of [ADVERTISING_CATEGORY, DEFAULT_CATEGORY]) {
+    if (!categories.some(category => category.name === required)) {
+      categories.push(defaults.find(category => category.name === required)!);
+    }
+  }
+  return categories;
+}
+
+/**
+ * Look up a category by name, falling back to the default category
+ */
+export function findCategory(categories: Category[], name: string): Category {
+  return categories.find(category => category.name === name)
+    || categories.find(category => category.name === DEFAULT_CATEGORY)!;
+}
+
+/**
+ * Category of a training example; examples without one follow isAdvertising
+ */
+export function exampleCategory(example: TrainingExample): string {
+  return example.category || (example.isAdvertising ? ADVERTISING_CATEGORY : DEFAULT_CATEGORY);
+}
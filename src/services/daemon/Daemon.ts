@@ -0,0 +1,207 @@
+import { MailProvider } from '../email/MailProvider';
+import { EmailProcessor } from '../processor/EmailProcessor';
+
+export interface DaemonOptions {
+  classifyIntervalMinutes: number;
+  cleanupIntervalMinutes: number;
+  watchNewMail: boolean;         // Classify new INBOX mail as it arrives (IMAP IDLE)
+  newMailPollSeconds: number;    // Polling interval when the server has no IDLE
+}
+
+const NEW_MAIL_TASK = 'new mail';
+
+const MIN_RECONNECT_DELAY_MS = 5 * 1000;
+const MAX_RECONNECT_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Long-running mode: keeps one IMAP connection open, reconnects when it
+ * drops, and runs the classify and cleanup passes on their own schedules.
+ * Between passes INBOX stays selected so new mail is classified on arrival.
+ * Passes never overlap since they share the connection.
+ */
+export class Daemon {
+  private mailProvider: MailProvider;
+  private processor: EmailProcessor;
+  private options: DaemonOptions;
+  private abortController = new AbortController();
+  private queue: Promise<void> = Promise.resolve();
+  private timers = new Set<NodeJS.Timeout>();
+  private reconnectDelayMs = MIN_RECONNECT_DELAY_MS;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private resolveStopped: (() => void) | null = null;
+  private newMailPending = false;
+
+  constructor(mailProvider: MailProvider, processor: EmailProcessor, options: DaemonOptions) {
+    this.mailProvider = mailProvider;
+    this.processor = processor;
+    this.options = options;
+
+    this.mailProvider.onConnectionLost((err) => {
+      console.error(`IMAP connection lost${err ? `: ${err.message}` : ''}`);
+      this.scheduleReconnect();
+    });
+  }
+
+  private get watching(): boolean {
+    return this.options.watchNewMail && !this.stopping;
+  }
+
+  private get stopping(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  /**
+   * Connect and start both schedules. Resolves once stop() has completed.
+   */
+  async start(): Promise<void> {
+    console.log('Starting daemon...');
+    console.log(`- Classify pass every ${this.options.classifyIntervalMinutes} minutes`);
+    console.log(`- Cleanup pass every ${this.options.cleanupIntervalMinutes} minutes`);
+    console.log(`- Watch for new mail: ${this.options.watchNewMail ? 'yes' : 'no'}`);
+
+    await this.mailProvider.connect();
+    console.log('Successfully connected to IMAP server');
+    await this.processor.prepare();
+
+    const stopped = new Promise<void>(resolve => {
+      this.resolveStopped = resolve;
+    });
+
+    if (this.options.watchNewMail) {
+      await this.mailProvider.subscribeToNewMail(
+        () => this.enqueueNewMail(),
+        this.options.newMailPollSeconds * 1000
+      );
+    }
+
+    this.schedule('classify', this.options.classifyIntervalMinutes, async () => {
+      await this.processor.feedbackPass();
+      await this.processor.classifyPass(this.abortController.signal);
+    });
+    this.schedule('cleanup', this.options.cleanupIntervalMinutes, async () => {
+      await this.processor.cleanupPass(this.abortController.signal);
+    });
+
+    return stopped;
+  }
+
+  /**
+   * Stop scheduling new passes, let the current one finish its current email, then disconnect
+   */
+  async stop(reason: string): Promise<void> {
+    if (this.stopping) return;
+    console.log(`\nReceived ${reason}, shutting down...`);
+    this.abortController.abort();
+    this.mailProvider.unsubscribeFromNewMail();
+
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    // Wait for the pass in progress
+    await this.queue;
+
+    try {
+      await this.mailProvider.disconnect();
+      console.log('Disconnected from IMAP server');
+    } catch (error) {
+      console.error('Error during disconnect:', error);
+    }
+    this.resolveStopped?.();
+  }
+
+  /**
+   * Run a task now and then every intervalMinutes, measured from the end of the previous run
+   */
+  private schedule(name: string, intervalMinutes: number, task: () => Promise<void>): void {
+    const run = () => {
+      this.enqueue(name, task).then(() => {
+        if (this.stopping) return;
+        const timer = setTimeout(() => {
+          this.timers.delete(timer);
+          run();
+        }, intervalMinutes * 60 * 1000);
+        this.timers.add(timer);
+        console.log(`\nNext ${name} pass at ${new Date(Date.now() + intervalMinutes * 60 * 1000).toLocaleString()}`);
+      });
+    };
+    run();
+  }
+
+  /**
+   * Serialize passes on the shared connection
+   */
+  private enqueue(name: string, task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(async () => {
+      if (this.stopping) return;
+      if (!this.mailProvider.isConnected) {
+        console.log(`Skipping ${name} pass: not connected`);
+        return;
+      }
+      try {
+        await task();
+      } catch (error) {
+        console.error(`Error in ${name} pass:`, error);
+      }
+
+      // Other passes leave a different folder selected; go back to INBOX
+      // so IDLE notifications resume, and pick up anything that arrived meanwhile
+      if (this.watching && name !== NEW_MAIL_TASK) {
+        await this.resumeWatching();
+      }
+    });
+    return this.queue;
+  }
+
+  /**
+   * Queue a check for new mail, unless one is already waiting
+   */
+  private enqueueNewMail(): void {
+    if (this.newMailPending || !this.watching) return;
+    this.newMailPending = true;
+
+    this.enqueue(NEW_MAIL_TASK, async () => {
+      this.newMailPending = false;
+      const emails = await this.mailProvider.fetchNewEmails();
+      if (emails.length === 0) return;
+
+      console.log(`\n=== NEW MAIL: ${emails.length} emails arrived ===`);
+      const processed = await this.processor.newMailPass(emails, this.abortController.signal);
+      console.log(`Classified ${processed} new emails`);
+    });
+  }
+
+  private async resumeWatching(): Promise<void> {
+    try {
+      await this.mailProvider.resumeNewMailSubscription();
+      this.enqueueNewMail();
+    } catch (error) {
+      console.error('Failed to resume watching INBOX:', error);
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopping || this.reconnectTimer) return;
+
+    console.log(`Reconnecting in ${Math.round(this.reconnectDelayMs / 1000)} seconds...`);
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.stopping) return;
+      try {
+        await this.mailProvider.connect();
+        console.log('Reconnected to IMAP server');
+        this.reconnectDelayMs = MIN_RECONNECT_DELAY_MS;
+        if (this.watching) {
+          this.queue = this.queue.then(() => this.resumeWatching());
+        }
+      } catch (error) {
+        console.error('Reconnect failed:', error instanceof Error ? error.message : error);
+        this.reconnectDelayMs = Math.min(this.reconnectDelayMs * 2, MAX_RECONNECT_DELAY_MS);
+        this.scheduleReconnect();
+      }
+    }, this.reconnectDelayMs);
+  }
+}
@@ -0,0 +1,226 @@
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { MailProvider } from '../email/MailProvider';
+import { EmailProcessor } from '../processor/EmailProcessor';
+import { AuditLog } from '../storage/AuditLog';
+import { DeletionQueue } from '../storage/DeletionQueue';
+import { SenderRules } from '../rules/SenderRules';
+import { Category } from '../classifier/taxonomy';
+import { openDatabase, databasePath } from '../storage/Database';
+import { extractAddress } from '../../utils/address';
+import { config, EnvConfig } from '../../config/env';
+import { layout, classificationsPage, queuePage, rulesPage, statsPage, statsWeeks } from './pages';
+
+export interface DashboardOptions {
+  port: number;
+  categories: Category[];
+  deletionDelayDays: number;
+}
+
+/** Largest form body accepted, enough for a big rules.json */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** The server only answers requests addressed to the loopback interface */
+const LOCAL_HOST = /^(localhost|127\.0\.0\.1)(:\d+)?$/;
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function readForm(req: http.IncomingMessage): Promise<URLSearchParams> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+      }
+    });
+    req.once('end', () => resolve(new URLSearchParams(body)));
+    req.once('error', reject);
+  });
+}
+
+/**
+ * Local web dashboard on 127.0.0.1 for reviewing classifications, the
+ * deletion queue, sender rules and advertising volume. It reads and writes
+ * the same local database and rules.json as the CLI. The IMAP connection is
+ * only opened when a classification is changed.
+ */
+export class DashboardServer {
+  private mailProvider: MailProvider;
+  private processor: EmailProcessor;
+  private options: DashboardOptions;
+  private auditLog: AuditLog;
+  private deletionQueue: DeletionQueue;
+  private rulesPath: string;
+  private server: http.Server;
+
+  /**
+   * @param env The account shown; its data directory holds the local database and rules.json
+   */
+  constructor(mailProvider: MailProvider, processor: EmailProcessor, options: DashboardOptions, env: EnvConfig = config) {
+    const db = openDatabase(databasePath(env.dataDir));
+    this.mailProvider = mailProvider;
+    this.processor = processor;
+    this.options = options;
+    this.auditLog = new AuditLog(db);
+    this.deletionQueue = new DeletionQueue(db);
+    this.rulesPath = path.join(env.dataDir, 'rules.json');
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        const status = error instanceof HttpError ? error.status : 500;
+        if (status === 500) console.error('Dashboard request failed:', error);
+        this.send(res, status, layout('Error', '', { text: error instanceof Error ? error.message : String(error), error: true }));
+      });
+    });
+  }
+
+  /**
+   * Start listening on the loopback interface
+   * @returns The URL of the dashboard
+   */
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port, '127.0.0.1', () => {
+        const { port } = this.server.address() as AddressInfo;
+        resolve(`http://127.0.0.1:${port}/`);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    // Refuse requests for other host names (DNS rebinding) and form posts from other sites
+    const host = req.headers.host || '';
+    if (!LOCAL_HOST.test(host)) {
+      throw new HttpError(403, 'The dashboard only answers on localhost');
+    }
+    if (req.method === 'POST' && req.headers.origin && req.headers.origin !== `http://${host}`) {
+      throw new HttpError(403, 'Cross-site form posts are not allowed');
+    }
+
+    const url = new URL(req.url || '/', `http://${host}`);
+    const notice = url.searchParams.get('message')
+      ? { text: url.searchParams.get('message') as string }
+      : url.searchParams.get('error') ? { text: url.searchParams.get('error') as string, error: true } : undefined;
+
+    if (req.method === 'GET') {
+      switch (url.pathname) {
+        case '/': {
+          const filter = {
+            sender: url.searchParams.get('sender') || undefined,
+            category: url.searchParams.get('category') || undefined
+          };
+          const entries = this.auditLog.search({ action: 'classify', ...filter, limit: 200 });
+          return this.send(res, 200, layout('Recent classifications', classificationsPage(entries, this.options.categories, filter), notice));
+        }
+        case '/queue': {
+          const items = [
+            ...this.deletionQueue.list({ status: 'pending', limit: 500 }),
+            ...this.deletionQueue.list({ status: 'approved', limit: 500 })
+          ].sort((a, b) => a.id - b.id);
+          return this.send(res, 200, layout('Deletion queue', queuePage(items, this.options.deletionDelayDays), notice));
+        }
+        case '/rules': {
+          const rules = new SenderRules(this.rulesPath);
+          return this.send(res, 200, layout('Sender rules', rulesPage(JSON.stringify(rules.all, null, 2), rules.path), notice));
+        }
+        case '/stats': {
+          const weeks = statsWeeks();
+          const volume = this.auditLog.advertisingVolume(new Date(`${weeks[0]}T00:00:00Z`));
+          return this.send(res, 200, layout('Advertising volume', statsPage(volume, weeks), notice));
+        }
+      }
+    }
+
+    if (req.method === 'POST') {
+      const form = await readForm(req);
+      let match: RegExpMatchArray | null;
+
+      if ((match = url.pathname.match(/^\/classifications\/(\d+)\/category$/))) {
+        return this.changeCategory(res, parseInt(match[1], 10), form.get('category') || '');
+      }
+      if ((match = url.pathname.match(/^\/queue\/(\d+)\/(approve|reject)$/))) {
+        return this.reviewDeletion(res, parseInt(match[1], 10), match[2] as 'approve' | 'reject');
+      }
+      if (url.pathname === '/queue/approve-all') {
+        const approved = this.deletionQueue.approveAll();
+        return this.redirect(res, '/queue', { message: `Approved ${approved} queued deletions` });
+      }
+      if (url.pathname === '/rules') {
+        return this.saveRules(res, form.get('rules') || '');
+      }
+    }
+
+    throw new HttpError(404, `Not found: ${req.method} ${url.pathname}`);
+  }
+
+  private async changeCategory(res: http.ServerResponse, id: number, categoryName: string): Promise<void> {
+    const entry = this.auditLog.get(id);
+    if (!entry || entry.action !== 'classify') {
+      throw new HttpError(404, `No classification #${id}`);
+    }
+    if (!this.options.categories.some(category => category.name === categoryName)) {
+      throw new HttpError(400, `Unknown category: ${categoryName}`);
+    }
+
+    try {
+      if (!this.mailProvider.isConnected) {
+        await this.mailProvider.connect();
+      }
+      await this.processor.reclassify(entry, categoryName);
+      this.redirect(res, '/', { message: `"${entry.subject}" is now filed as ${categoryName}` });
+    } catch (error) {
+      console.error(`Failed to reclassify: ${entry.subject}`, error);
+      this.redirect(res, '/', { error: `Failed to reclassify "${entry.subject}": ${error instanceof Error ? error.message : String(error)}` });
+    }
+  }
+
+  private reviewDeletion(res: http.ServerResponse, id: number, decision: 'approve' | 'reject'): void {
+    const item = this.deletionQueue.get(id);
+    if (!item || !this.deletionQueue.review(id, decision === 'approve' ? 'approved' : 'rejected')) {
+      return this.redirect(res, '/queue', { error: `#${id} is not waiting for deletion` });
+    }
+    if (decision === 'approve') {
+      return this.redirect(res, '/queue', { message: `#${id} will be deleted by the next cleanup pass` });
+    }
+
+    // Keep the rest of this sender's mail too
+    const address = extractAddress(item.sender);
+    new SenderRules(this.rulesPath).addRule('allow', { address, note: `Rejected deletion of "${item.subject}"` });
+    this.redirect(res, '/queue', { message: `Kept #${id} and allowlisted ${address}` });
+  }
+
+  private saveRules(res: http.ServerResponse, rulesJson: string): void {
+    try {
+      new SenderRules(this.rulesPath).replaceRules(JSON.parse(rulesJson));
+      this.redirect(res, '/rules', { message: 'Rules saved' });
+    } catch (error) {
+      // Show the rejected JSON again so the edit isn't lost
+      const rules = new SenderRules(this.rulesPath);
+      const text = error instanceof Error ? error.message : String(error);
+      this.send(res, 400, layout('Sender rules', rulesPage(rulesJson, rules.path), { text: `Rules not saved: ${text}`, error: true }));
+    }
+  }
+
+  private send(res: http.ServerResponse, status: number, html: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(html);
+  }
+
+  /** Redirect after a form post, with a message for the next page */
+  private redirect(res: http.ServerResponse, location: string, notice: { message?: string; error?: string }): void {
+    const query = new URLSearchParams(notice as Record<string, string>).toString();
+    res.writeHead(303, { Location: `${location}?${query}` });
+    res.end();
+  }
+}
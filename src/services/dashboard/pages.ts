@@ -0,0 +1,194 @@
+import { AuditEntry } from '../storage/AuditLog';
+import { QueuedDeletion } from '../storage/DeletionQueue';
+import { Category } from '../classifier/taxonomy';
+import { extractDomain } from '../../utils/address';
+
+/** Weeks of history shown on the stats page */
+const STATS_WEEKS = 12;
+const TOP_SENDERS = 15;
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 0 2rem 2rem; color: #222; }
+  nav { display: flex; gap: 1.5rem; padding: 1rem 0; border-bottom: 1px solid #ddd; margin-bottom: 1rem; }
+  nav a { color: #0a58ca; text-decoration: none; font-weight: 600; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 0.4rem 0.6rem; border-bottom: 1px solid #eee; vertical-align: top; }
+  th { background: #f6f6f6; }
+  .muted { color: #777; font-size: 0.9em; }
+  .message { background: #e8f4ea; padding: 0.6rem 1rem; border-radius: 4px; }
+  .error { background: #fbe9e9; padding: 0.6rem 1rem; border-radius: 4px; }
+  form.inline { display: inline; }
+  textarea { width: 100%; font-family: monospace; }
+  svg rect { fill: #d9534f; }
+`;
+
+/**
+ * Wrap a page body in the shared layout
+ * @param notice Optional message shown above the content, e.g. the result of a form post
+ */
+export function layout(title: string, content: string, notice?: { text: string; error?: boolean }): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)} - Email Deletifier</title>
+  <style>${STYLE}</style>
+</head>
+<body>
+  <nav>
+    <a href="/">Classifications</a>
+    <a href="/queue">Deletion queue</a>
+    <a href="/rules">Sender rules</a>
+    <a href="/stats">Advertising volume</a>
+  </nav>
+  <h1>${escapeHtml(title)}</h1>
+  ${notice ? `<p class="${notice.error ? 'error' : 'message'}">${escapeHtml(notice.text)}</p>` : ''}
+  ${content}
+</body>
+</html>`;
+}
+
+export function classificationsPage(entries: AuditEntry[], categories: Category[], filter: { sender?: string; category?: string }): string {
+  const categoryOptions = (selected: string | null) => categories
+    .map(category => `<option value="${escapeHtml(category.name)}"${category.name === selected ? ' selected' : ''}>${escapeHtml(category.name)}</option>`)
+    .join('');
+
+  const rows = entries.map(entry => `
+    <tr>
+      <td class="muted">${escapeHtml(entry.createdAt.slice(0, 16).replace('T', ' '))}</td>
+      <td>${escapeHtml(entry.sender)}<br><strong>${escapeHtml(entry.subject)}</strong></td>
+      <td>${escapeHtml(entry.category ?? (entry.isAdvertising ? 'advertising' : '-'))}<br>
+        <span class="muted">${((entry.confidence ?? 0) * 100).toFixed(0)}% (${escapeHtml(entry.model)})</span></td>
+      <td>${escapeHtml(entry.reason)}</td>
+      <td>
+        <form class="inline" method="post" action="/classifications/${entry.id}/category">
+          <select name="category">${categoryOptions(entry.category)}</select>
+          <button type="submit">Change</button>
+        </form>
+      </td>
+    </tr>`).join('');
+
+  return `
+    <form method="get" action="/">
+      <input name="sender" placeholder="Sender" value="${escapeHtml(filter.sender)}">
+      <select name="category"><option value="">All categories</option>${categoryOptions(filter.category ?? null)}</select>
+      <button type="submit">Filter</button>
+    </form>
+    <p class="muted">Changing a category relabels the email in the mailbox. The next run learns from the change.</p>
+    <table>
+      <tr><th>When</th><th>Email</th><th>Category</th><th>Reason</th><th></th></tr>
+      ${rows || '<tr><td colspan="5">No classifications yet</td></tr>'}
+    </table>`;
+}
+
+export function queuePage(items: QueuedDeletion[], deletionDelayDays: number): string {
+  const rows = items.map(item => `
+    <tr>
+      <td>#${item.id}<br><span class="muted">${escapeHtml(item.queuedAt.slice(0, 10))}</span></td>
+      <td>${escapeHtml(item.sender)}<br><strong>${escapeHtml(item.subject)}</strong></td>
+      <td>${escapeHtml(item.action)} from ${escapeHtml(item.folder)}<br><span class="muted">${escapeHtml(item.reason)}</span></td>
+      <td>${escapeHtml(item.status)}</td>
+      <td>
+        ${item.status === 'pending' ? `<form class="inline" method="post" action="/queue/${item.id}/approve"><button type="submit">Approve</button></form>` : ''}
+        <form class="inline" method="post" action="/queue/${item.id}/reject"><button type="submit">Keep and allowlist sender</button></form>
+      </td>
+    </tr>`).join('');
+
+  return `
+    <p class="muted">Emails waiting to be deleted. Approved emails, and pending ones not reviewed within ${deletionDelayDays} days, are deleted by the next cleanup pass.</p>
+    <form method="post" action="/queue/approve-all"><button type="submit">Approve all pending</button></form>
+    <table>
+      <tr><th>ID</th><th>Email</th><th>Action</th><th>Status</th><th></th></tr>
+      ${rows || '<tr><td colspan="5">Nothing is waiting to be deleted</td></tr>'}
+    </table>`;
+}
+
+export function rulesPage(rulesJson: string, filePath: string): string {
+  return `
+    <p class="muted">Allow and block rules from <code>${escapeHtml(filePath)}</code>. Each rule may set
+      <code>address</code>, <code>domain</code>, <code>senderPattern</code>, <code>subjectPattern</code> and <code>note</code>.</p>
+    <form method="post" action="/rules">
+      <textarea name="rules" rows="30">${escapeHtml(rulesJson)}</textarea>
+      <p><button type="submit">Save rules</button></p>
+    </form>`;
+}
+
+/**
+ * Monday (UTC) of the week a YYYY-MM-DD day falls in
+ */
+function weekOf(day: string): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The weeks shown on the stats page, ending with the current week
+ */
+export function statsWeeks(now: Date = new Date()): string[] {
+  const weeks: string[] = [];
+  const week = new Date(`${weekOf(now.toISOString().slice(0, 10))}T00:00:00Z`);
+  week.setUTCDate(week.getUTCDate() - (STATS_WEEKS - 1) * 7);
+  while (weeks.length < STATS_WEEKS) {
+    weeks.push(week.toISOString().slice(0, 10));
+    week.setUTCDate(week.getUTCDate() + 7);
+  }
+  return weeks;
+}
+
+function barChart(counts: number[], max: number, width: number, height: number): string {
+  const barWidth = width / counts.length;
+  const bars = counts.map((count, index) => {
+    const barHeight = max > 0 ? Math.round((count / max) * height) : 0;
+    return `<rect x="${index * barWidth + 1}" y="${height - barHeight}" width="${barWidth - 2}" height="${barHeight}"><title>${count}</title></rect>`;
+  }).join('');
+  return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${bars}</svg>`;
+}
+
+/**
+ * Weekly advertising volume overall and for the busiest sender domains
+ * @param volume Advertising classifications per sender and day
+ * @param weeks First day of each week to chart, see statsWeeks
+ */
+export function statsPage(volume: Array<{ sender: string; day: string; count: number }>, weeks: string[]): string {
+  const total = weeks.map(() => 0);
+  const byDomain = new Map<string, number[]>();
+  for (const { sender, day, count } of volume) {
+    const index = weeks.indexOf(weekOf(day));
+    if (index === -1) continue;
+    const domain = extractDomain(sender) || sender;
+    const counts = byDomain.get(domain) || weeks.map(() => 0);
+    counts[index] += count;
+    byDomain.set(domain, counts);
+    total[index] += count;
+  }
+
+  const sum = (counts: number[]) => counts.reduce((a, b) => a + b, 0);
+  const top = [...byDomain.entries()].sort((a, b) => sum(b[1]) - sum(a[1])).slice(0, TOP_SENDERS);
+  const domainMax = Math.max(0, ...top.flatMap(([, counts]) => counts));
+  const rows = top.map(([domain, counts]) => `
+    <tr>
+      <td>${escapeHtml(domain)}</td>
+      <td>${sum(counts)}</td>
+      <td>${barChart(counts, domainMax, 240, 30)}</td>
+    </tr>`).join('');
+
+  return `
+    <p class="muted">Emails classified as advertising per week, from ${escapeHtml(weeks[0])} to ${escapeHtml(weeks[weeks.length - 1])}.</p>
+    <h2>All senders (${sum(total)})</h2>
+    ${barChart(total, Math.max(...total), 720, 120)}
+    <h2>Top ${TOP_SENDERS} sender domains</h2>
+    <table>
+      <tr><th>Domain</th><th>Emails</th><th>Per week</th></tr>
+      ${rows || '<tr><td colspan="3">No advertising classified in this period</td></tr>'}
+    </table>`;
+}
@@ -0,0 +1,608 @@
+import { simpleParser } from 'mailparser';
+import { config, EnvConfig } from '../../config/env';
+import { GmailOAuth } from '../auth/GmailOAuth';
+import { SyncStateStore } from '../storage/SyncStateStore';
+import { openDatabase, databasePath } from '../storage/Database';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { MailProvider, Email, FetchOptions, RawMessage, BatchFailures, PROCESSED_LABEL, toEmail, runInChunks } from './MailProvider';
+
+export const GMAIL_API_URL = 'https://gmail.googleapis.com';
+
+/** Most message IDs messages.batchModify and messages.batchDelete accept per request */
+const MAX_BATCH_MODIFY = 1000;
+
+/** Messages downloaded at the same time */
+const FETCH_CONCURRENCY = 10;
+
+/** Retries of a request after a rate limit (429) or server error (5xx) */
+const MAX_RETRIES = 5;
+/** First retry delay, doubled for every further retry */
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+/** Gmail keeps no UIDVALIDITY; sync state stores the history ID as the high-water mark */
+const HISTORY_UID_VALIDITY = 0;
+
+/** Access tokens for the API, normally GmailOAuth */
+export type AccessTokenSource = Pick<GmailOAuth, 'getAccessToken' | 'invalidate'>;
+
+export class GmailApiError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'GmailApiError';
+  }
+}
+
+interface GmailLabel {
+  id: string;
+  name: string;
+  type?: 'system' | 'user';
+}
+
+interface GmailMessage {
+  id: string;
+  labelIds?: string[];
+  internalDate?: string;  // Milliseconds since the epoch
+  raw?: string;           // base64url RFC 822 source, with format=raw
+}
+
+interface MessageList {
+  messages?: Array<{ id: string }>;
+  nextPageToken?: string;
+}
+
+interface HistoryList {
+  history?: Array<{ messagesAdded?: Array<{ message: GmailMessage }> }>;
+  nextPageToken?: string;
+  historyId: string;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Milliseconds the server asked us to wait in a Retry-After header, or 0
+ */
+function retryAfterMs(response: Response): number {
+  const seconds = parseFloat(response.headers.get('retry-after') || '');
+  return Number.isFinite(seconds) ? seconds * 1000 : 0;
+}
+
+function toBase64Url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * IMAP flags of a message, derived from its system labels
+ */
+function flagsFromLabels(labelIds: string[]): string[] {
+  const flags: string[] = [];
+  if (!labelIds.includes('UNREAD')) flags.push('\\Seen');
+  if (labelIds.includes('STARRED')) flags.push('\\Flagged');
+  return flags;
+}
+
+/**
+ * Mailbox access through the Gmail REST API instead of IMAP
+ * (EMAIL_PROVIDER=gmail). Folders are labels; email IDs are Gmail message
+ * IDs, valid in every folder. Incremental runs and new-mail polling use the
+ * mailbox history instead of UIDs. Authenticates with the OAuth2 token
+ * stored by the authorize command.
+ */
+export class GmailApiService implements MailProvider {
+  private env: EnvConfig;
+  private tokens: AccessTokenSource;
+  private apiUrl: string;
+  private connected: boolean = false;
+  private labels: GmailLabel[] | null = null;
+  private newMailListener: (() => void) | null = null;
+  private newMailPollTimer: NodeJS.Timeout | null = null;
+  private newMailHistoryId: string | null = null;
+
+  /**
+   * @param env The account to connect to
+   * @param tokens Source of OAuth2 access tokens
+   * @param apiUrl Base URL of the API, e.g. a local fake in tests
+   */
+  constructor(env: EnvConfig = config, tokens: AccessTokenSource = new GmailOAuth(env), apiUrl: string = GMAIL_API_URL) {
+    this.env = env;
+    this.tokens = tokens;
+    this.apiUrl = apiUrl.replace(/\/$/, '');
+  }
+
+  public get isConnected(): boolean {
+    return this.connected;
+  }
+
+  public get hasLabels(): boolean {
+    return true;
+  }
+
+  /**
+   * Check the credentials by reading the mailbox profile. There is no
+   * connection to keep open, so the API never reports a lost connection.
+   */
+  public async connect(): Promise<void> {
+    if (this.connected) return;
+    await this.request('GET', '/profile');
+    this.connected = true;
+  }
+
+  public async disconnect(): Promise<void> {
+    this.unsubscribeFromNewMail();
+    this.connected = false;
+    this.labels = null;
+  }
+
+  public onConnectionLost(_listener: (err?: Error) => void): void {
+    // Each request stands on its own; failures are reported by the request
+  }
+
+  /**
+   * Call an endpoint under /gmail/v1/users/me, refreshing the access token once if it was rejected
+   * and retrying rate limits (429) and server errors (5xx) with exponential backoff
+   */
+  private async request<T>(method: string, endpoint: string, body?: unknown): Promise<T> {
+    let refreshed = false;
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(`${this.apiUrl}/gmail/v1/users/me${endpoint}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${await this.tokens.getAccessToken()}`,
+          ...(body !== undefined && { 'Content-Type': 'application/json' })
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined
+      });
+
+      if (response.status === 401 && !refreshed) {
+        this.tokens.invalidate();
+        refreshed = true;
+        attempt--;
+        continue;
+      }
+      if ((response.status === 429 || response.status >= 500) && attempt < MAX_RETRIES) {
+        await response.arrayBuffer().catch(() => undefined);
+        // Jitter keeps concurrent downloads from retrying in lockstep
+        const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+        const delay = Math.max(backoff, retryAfterMs(response));
+        console.log(`Gmail API ${method} ${endpoint.split('?')[0]} failed (${response.status}), retry ${attempt + 1} of ${MAX_RETRIES} in ${(delay / 1000).toFixed(1)}s`);
+        await sleep(delay);
+        continue;
+      }
+      if (!response.ok) {
+        const error = await response.json().catch(() => null) as { error?: { message?: string } } | null;
+        throw new GmailApiError(response.status, `Gmail API ${method} ${endpoint.split('?')[0]} failed (${response.status}): ${error?.error?.message || response.statusText}`);
+      }
+
+      const text = await response.text();
+      return (text ? JSON.parse(text) : undefined) as T;
+    }
+  }
+
+  private requireConnection(): void {
+    if (!this.connected) {
+      throw new Error('Not connected to the Gmail API');
+    }
+  }
+
+  private async loadLabels(): Promise<GmailLabel[]> {
+    if (!this.labels) {
+      const { labels } = await this.request<{ labels?: GmailLabel[] }>('GET', '/labels');
+      this.labels = labels || [];
+    }
+    return this.labels;
+  }
+
+  /**
+   * ID of a label by name; system labels such as INBOX and TRASH also match by ID
+   */
+  private async labelId(name: string): Promise<string> {
+    const labels = await this.loadLabels();
+    const label = labels.find(candidate => candidate.name === name)
+      || labels.find(candidate => candidate.type === 'system' && candidate.id === name.toUpperCase());
+    if (!label) {
+      throw new Error(`Label "${name}" does not exist`);
+    }
+    return label.id;
+  }
+
+  public async listFolders(): Promise<string[]> {
+    this.requireConnection();
+    return (await this.loadLabels()).map(label => label.name);
+  }
+
+  public async createFolder(folderName: string): Promise<void> {
+    this.requireConnection();
+    const label = await this.request<GmailLabel>('POST', '/labels', {
+      name: folderName,
+      labelListVisibility: 'labelShow',
+      messageListVisibility: 'show'
+    });
+    (await this.loadLabels()).push(label);
+  }
+
+  async ensureFolderExists(folderName: string): Promise<void> {
+    try {
+      const folders = await this.listFolders();
+      if (!folders.includes(folderName)) {
+        console.log(`Creating folder: ${folderName}`);
+        await this.createFolder(folderName);
+      }
+    } catch (error) {
+      throw new Error(`Failed to ensure folder "${folderName}" exists: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  public async deleteFolder(folderName: string): Promise<void> {
+    this.requireConnection();
+    const id = await this.labelId(folderName);
+    await this.request('DELETE', `/labels/${id}`);
+    this.labels = (this.labels || []).filter(label => label.id !== id);
+  }
+
+  /**
+   * IDs of the messages matching a Gmail search query, newest first
+   * @param query Gmail search syntax, e.g. "from:shop.example.com older_than:30d"
+   * @param labelId Only messages with this label
+   * @param limit Stop after this many IDs
+   */
+  private async listMessageIds(query: string, labelId?: string, limit: number = Infinity): Promise<string[]> {
+    const ids: string[] = [];
+    let pageToken: string | undefined;
+    do {
+      const params = new URLSearchParams({ q: query, maxResults: String(Math.min(500, limit - ids.length)) });
+      if (labelId) params.set('labelIds', labelId);
+      if (pageToken) params.set('pageToken', pageToken);
+
+      const page = await this.request<MessageList>('GET', `/messages?${params}`);
+      ids.push(...(page.messages || []).map(message => message.id));
+      pageToken = page.nextPageToken;
+    } while (pageToken && ids.length < limit);
+    return ids;
+  }
+
+  private buildQuery(options: FetchOptions): string {
+    const query: string[] = options.includeProcessed ? [] : [`-label:${PROCESSED_LABEL}`];
+    if (options.maxAgeDays) query.push(`newer_than:${options.maxAgeDays}d`);
+    if (options.minAgeDays) query.push(`older_than:${options.minAgeDays}d`);
+    if (options.includeRead && !options.includeUnread) query.push('is:read');
+    if (!options.includeRead) query.push('is:unread');
+    for (const label of options.labels || []) query.push(`label:"${label}"`);
+    return query.join(' ');
+  }
+
+  /**
+   * Whether an email found through the history still matches the options
+   * the search query would have applied
+   */
+  private matches(email: Email, options: FetchOptions): boolean {
+    if (!options.includeProcessed && (email.labels || []).includes(PROCESSED_LABEL)) return false;
+    if (options.maxAgeDays && email.ageInDays > options.maxAgeDays) return false;
+    if (options.minAgeDays && email.ageInDays < options.minAgeDays) return false;
+    const seen = (email.flags || []).includes('\\Seen');
+    if (seen && !options.includeRead) return false;
+    if (!seen && !options.includeUnread && options.includeRead) return false;
+    return true;
+  }
+
+  private async getRaw(emailId: string): Promise<GmailMessage> {
+    return this.request<GmailMessage>('GET', `/messages/${emailId}?format=raw`);
+  }
+
+  /**
+   * Download and parse messages; messages deleted in the meantime are left out
+   * @param failed Collects the IDs of messages that could not be downloaded
+   */
+  private async fetchMessages(ids: string[], failed?: Set<string>): Promise<Email[]> {
+    const labels = await this.loadLabels();
+    const emails = await mapWithConcurrency(ids, FETCH_CONCURRENCY, async (id): Promise<Email | null> => {
+      try {
+        const message = await this.getRaw(id);
+        const parsed = await simpleParser(Buffer.from(message.raw || '', 'base64url'));
+        const labelIds = message.labelIds || [];
+        return {
+          ...toEmail(message.id, parsed),
+          flags: flagsFromLabels(labelIds),
+          labels: labelIds.map(labelId => labels.find(label => label.id === labelId)?.name || labelId)
+        };
+      } catch (error) {
+        if (error instanceof GmailApiError && error.status === 404) return null;
+        console.error(`Failed to fetch message ${id}:`, error);
+        failed?.add(id);
+        return null;
+      }
+    });
+    return emails.filter((email): email is Email => email !== null);
+  }
+
+  async fetchEmails(options: FetchOptions, folderName: string = 'INBOX'): Promise<Email[]> {
+    this.requireConnection();
+    console.log(`Fetching emails from folder: ${folderName}`);
+
+    const ids = await this.listMessageIds(this.buildQuery(options), await this.labelId(folderName), options.batchSize || 100);
+    if (ids.length === 0) {
+      console.log(`No emails found in ${folderName}`);
+      return [];
+    }
+    console.log(`Found ${ids.length} emails in ${folderName}`);
+    return this.fetchMessages(ids);
+  }
+
+  /**
+   * Emails matching a Gmail search query
+   * @param query Gmail search syntax, e.g. "category:promotions older_than:1y"
+   * @param folderName Only emails with this label
+   * @param limit Maximum number of emails
+   */
+  async searchEmails(query: string, folderName?: string, limit: number = 100): Promise<Email[]> {
+    this.requireConnection();
+    const ids = await this.listMessageIds(query, folderName ? await this.labelId(folderName) : undefined, limit);
+    return this.fetchMessages(ids);
+  }
+
+  /**
+   * IDs of messages given the label since a history ID, oldest first
+   * @returns null if the history ID is too old for Gmail to still have the history
+   */
+  private async addedSince(startHistoryId: string, labelId: string): Promise<{ ids: string[]; historyId: string } | null> {
+    const ids = new Set<string>();
+    let pageToken: string | undefined;
+    let historyId = startHistoryId;
+    do {
+      const params = new URLSearchParams({ startHistoryId, historyTypes: 'messageAdded', labelId });
+      if (pageToken) params.set('pageToken', pageToken);
+
+      let page: HistoryList;
+      try {
+        page = await this.request<HistoryList>('GET', `/history?${params}`);
+      } catch (error) {
+        if (error instanceof GmailApiError && error.status === 404) return null;
+        throw error;
+      }
+      for (const record of page.history || []) {
+        for (const { message } of record.messagesAdded || []) {
+          if (!message.labelIds || message.labelIds.includes(labelId)) ids.add(message.id);
+        }
+      }
+      historyId = page.historyId;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+    return { ids: [...ids], historyId };
+  }
+
+  private async currentHistoryId(): Promise<string> {
+    const { historyId } = await this.request<{ historyId: string }>('GET', '/profile');
+    return historyId;
+  }
+
+  /**
+   * Walk every email matching the options in batches of options.batchSize.
+   * With options.incremental, only messages added to the folder since the
+   * history ID saved by the previous run are visited, after the emails that
+   * run failed to handle. Once every batch has been consumed, the new history
+   * ID is saved along with the emails to retry (options.unhandled and any
+   * that could not be downloaded).
+   */
+  async *iterateEmails(options: FetchOptions, folderName: string = 'INBOX'): AsyncGenerator<Email[]> {
+    this.requireConnection();
+    const labelId = await this.labelId(folderName);
+    const syncState = options.incremental ? new SyncStateStore(openDatabase(databasePath(this.env.dataDir))) : null;
+    const historyId = await this.currentHistoryId();
+
+    let ids: string[] | null = null;
+    const state = syncState?.get(this.accountKey, folderName);
+    if (state) {
+      const added = await this.addedSince(String(state.highWaterUid), labelId);
+      if (added) {
+        const retry = syncState!.pendingIds(this.accountKey, folderName);
+        ids = [...new Set([...retry, ...added.ids])];
+        console.log(`Resuming ${folderName} after history ID ${state.highWaterUid}${retry.length ? `, retrying ${retry.length} unhandled emails` : ''}`);
+      } else {
+        console.log(`History of ${folderName} since the last run has expired, starting from the beginning`);
+      }
+    }
+    const incremental = ids !== null;
+    if (!ids) {
+      // Oldest first, like UID order over IMAP
+      ids = (await this.listMessageIds(this.buildQuery(options), labelId)).reverse();
+    }
+    console.log(`Found ${ids.length} emails in ${folderName}`);
+
+    const batchSize = options.batchSize || 100;
+    const unfetched = new Set<string>();
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const emails = await this.fetchMessages(ids.slice(i, i + batchSize), unfetched);
+      // The search query already applied the options to a full listing
+      yield incremental ? emails.filter(email => this.matches(email, options)) : emails;
+    }
+    if (!syncState) return;
+
+    // History can only be resumed as a whole, so emails to retry are saved by ID and the history ID moves on
+    const pending = [...new Set([...(options.unhandled || []), ...unfetched])];
+    if (pending.length > 0) {
+      console.log(`${pending.length} emails were not handled, the next run retries them`);
+    }
+    syncState.setPendingIds(this.accountKey, folderName, pending);
+    syncState.set(this.accountKey, folderName, HISTORY_UID_VALIDITY, Number(historyId));
+  }
+
+  /**
+   * Identifies this mailbox in local state shared between accounts
+   */
+  private get accountKey(): string {
+    return `${this.env.emailUser}@gmail-api`;
+  }
+
+  public async findByMessageId(messageId: string, folderName: string = 'INBOX'): Promise<string[]> {
+    this.requireConnection();
+    return this.listMessageIds(`rfc822msgid:${messageId.replace(/^<|>$/g, '')}`, await this.labelId(folderName));
+  }
+
+  public async fetchSource(emailId: string, _folderName?: string): Promise<RawMessage> {
+    this.requireConnection();
+    const message = await this.getRaw(emailId);
+    return {
+      source: Buffer.from(message.raw || '', 'base64url'),
+      flags: flagsFromLabels(message.labelIds || []),
+      date: new Date(Number(message.internalDate || Date.now()))
+    };
+  }
+
+  /**
+   * Insert a message into the mailbox with the folder's label. Gmail sets the
+   * received date from the Date header.
+   */
+  public async appendMessage(message: RawMessage, folderName: string): Promise<void> {
+    this.requireConnection();
+    const labelIds = [await this.labelId(folderName)];
+    if (!message.flags.includes('\\Seen')) labelIds.push('UNREAD');
+    if (message.flags.includes('\\Flagged')) labelIds.push('STARRED');
+    await this.request('POST', '/messages?internalDateSource=dateHeader', {
+      raw: toBase64Url(message.source),
+      labelIds
+    });
+  }
+
+  /**
+   * Add and remove labels on many messages at once
+   * @param emailIds Gmail message IDs
+   * @param add Names of labels to add
+   * @param remove Names of labels to remove
+   */
+  async modifyLabels(emailIds: string[], add: string[], remove: string[] = []): Promise<void> {
+    this.requireConnection();
+    const addLabelIds = await Promise.all(add.map(name => this.labelId(name)));
+    const removeLabelIds = await Promise.all(remove.map(name => this.labelId(name)));
+    for (let i = 0; i < emailIds.length; i += MAX_BATCH_MODIFY) {
+      await this.request('POST', '/messages/batchModify', {
+        ids: emailIds.slice(i, i + MAX_BATCH_MODIFY),
+        addLabelIds,
+        removeLabelIds
+      });
+    }
+  }
+
+  public async addLabel(emailId: string, label: string): Promise<void> {
+    return this.modifyLabels([emailId], [label]);
+  }
+
+  public async removeLabel(emailId: string, label: string): Promise<void> {
+    return this.modifyLabels([emailId], [], [label]);
+  }
+
+  public async moveEmail(emailId: string, targetFolder: string, sourceFolder: string = 'INBOX'): Promise<void> {
+    return this.modifyLabels([emailId], [targetFolder], sourceFolder !== targetFolder ? [sourceFolder] : []);
+  }
+
+  public async copyEmail(emailId: string, targetFolder: string): Promise<void> {
+    return this.modifyLabels([emailId], [targetFolder]);
+  }
+
+  /**
+   * Take an email out of a folder; it stays in All Mail
+   */
+  public async archiveEmail(emailId: string, folderName: string = 'INBOX'): Promise<void> {
+    return this.modifyLabels([emailId], [], [folderName]);
+  }
+
+  public async trashEmail(emailId: string): Promise<void> {
+    this.requireConnection();
+    await this.request('POST', `/messages/${emailId}/trash`);
+  }
+
+  /**
+   * Delete an email. Moves it to the Trash unless HARD_DELETE is set (or it
+   * is already in the Trash), in which case it is deleted permanently.
+   */
+  async deleteEmail(emailId: string, folderName: string): Promise<void> {
+    this.requireConnection();
+    if (!this.env.hardDelete && folderName.toUpperCase() !== 'TRASH') {
+      return this.trashEmail(emailId);
+    }
+    await this.request('DELETE', `/messages/${emailId}`);
+  }
+
+  public async addLabels(emails: Array<Pick<Email, 'id'>>, label: string): Promise<BatchFailures> {
+    this.requireConnection();
+    return runInChunks(emails.map(email => email.id), MAX_BATCH_MODIFY, ids => this.modifyLabels(ids, [label]));
+  }
+
+  public async moveEmails(emailIds: string[], targetFolder: string, sourceFolder: string = 'INBOX'): Promise<BatchFailures> {
+    this.requireConnection();
+    const remove = sourceFolder !== targetFolder ? [sourceFolder] : [];
+    return runInChunks(emailIds, MAX_BATCH_MODIFY, ids => this.modifyLabels(ids, [targetFolder], remove));
+  }
+
+  public async copyEmails(emailIds: string[], targetFolder: string): Promise<BatchFailures> {
+    this.requireConnection();
+    return runInChunks(emailIds, MAX_BATCH_MODIFY, ids => this.modifyLabels(ids, [targetFolder]));
+  }
+
+  /**
+   * Trash emails one request at a time; the API has no batch trash
+   */
+  public async trashEmails(emailIds: string[]): Promise<BatchFailures> {
+    this.requireConnection();
+    return runInChunks(emailIds, 1, ([id]) => this.trashEmail(id));
+  }
+
+  /**
+   * Delete many emails, see deleteEmail. Permanent deletes use messages.batchDelete.
+   */
+  async deleteEmails(emailIds: string[], folderName: string): Promise<BatchFailures> {
+    this.requireConnection();
+    if (!this.env.hardDelete && folderName.toUpperCase() !== 'TRASH') {
+      return this.trashEmails(emailIds);
+    }
+    return runInChunks(emailIds, MAX_BATCH_MODIFY, async ids => {
+      await this.request('POST', '/messages/batchDelete', { ids });
+    });
+  }
+
+  /**
+   * Poll the mailbox history for new INBOX mail; the API has no push
+   * notifications without a Cloud Pub/Sub topic
+   */
+  public async subscribeToNewMail(listener: () => void, pollIntervalMs: number): Promise<void> {
+    this.requireConnection();
+    this.unsubscribeFromNewMail();
+    this.newMailHistoryId = await this.currentHistoryId();
+    this.newMailListener = listener;
+    console.log(`Polling Gmail for new mail every ${Math.round(pollIntervalMs / 1000)} seconds`);
+    this.newMailPollTimer = setInterval(() => this.newMailListener?.(), pollIntervalMs);
+  }
+
+  public unsubscribeFromNewMail(): void {
+    this.newMailListener = null;
+    if (this.newMailPollTimer) {
+      clearInterval(this.newMailPollTimer);
+      this.newMailPollTimer = null;
+    }
+  }
+
+  public async resumeNewMailSubscription(): Promise<void> {
+    // Polling needs no selected mailbox
+  }
+
+  public async fetchNewEmails(): Promise<Email[]> {
+    this.requireConnection();
+    if (!this.newMailHistoryId) {
+      this.newMailHistoryId = await this.currentHistoryId();
+      return [];
+    }
+
+    const added = await this.addedSince(this.newMailHistoryId, 'INBOX');
+    if (!added) {
+      console.log('Gmail history expired, resetting new mail tracking');
+      this.newMailHistoryId = await this.currentHistoryId();
+      return [];
+    }
+    this.newMailHistoryId = added.historyId;
+    if (added.ids.length === 0) {
+      return [];
+    }
+    console.log(`Found ${added.ids.length} new emails in INBOX`);
+    return this.fetchMessages(added.ids);
+  }
+}
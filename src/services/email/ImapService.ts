@@ -1,42 +1,122 @@
 import Imap from 'imap';
 import { simpleParser, ParsedMail } from 'mailparser';
-import { config } from '../../config/env';
-import { Readable } from 'stream';
-
-export interface Email {
-  id: string;
-  subject: string;
-  sender: string;
-  date: Date;
-  ageInDays: number;
-  body: string;
-  html: string;
-  text: string;
-  labels?: string[];  // Gmail labels
+import { config, EnvConfig } from '../../config/env';
+import { SyncStateStore } from '../storage/SyncStateStore';
+import { LocalLabelStore } from '../storage/LocalLabelStore';
+import { openDatabase, databasePath } from '../storage/Database';
+import { GmailOAuth, AuthorizationRequiredError } from '../auth/GmailOAuth';
+import { MailProvider, Email, FetchOptions, RawMessage, BatchFailures, PROCESSED_LABEL, toEmail, runInChunks } from './MailProvider';
+
+/**
+ * IMAP keyword used to store a label on servers without Gmail labels, e.g. "$Processed"
+ */
+export function keywordForLabel(label: string): string {
+  return `$${label.replace(/[^A-Za-z0-9_-]/g, '')}`;
+}
+
+const ARCHIVE_FOLDER = 'Archive';
+const TRASH_FOLDER = 'Trash';
+const GMAIL_TRASH_FOLDER = '[Gmail]/Trash';
+
+/**
+ * Gmail label that puts an email in a folder: the inbox is the \\Inbox system label
+ */
+function gmailLabelForFolder(folderName: string): string {
+  return folderName.toUpperCase() === 'INBOX' ? '\\Inbox' : folderName;
+}
+
+/** UIDs per UID-set command in the batch operations, keeping command lines short */
+const UID_CHUNK_SIZE = 200;
+
+/**
+ * Full path of the first folder with a special-use attribute (RFC 6154), e.g. \\Trash
+ */
+function findSpecialUse(boxes: Imap.MailBoxes, attrib: string, prefix: string = ''): string | null {
+  for (const [name, box] of Object.entries(boxes)) {
+    const folderName = prefix + name;
+    if (box.attribs.some(a => a.toLowerCase() === attrib.toLowerCase())) {
+      return folderName;
+    }
+    if (box.children) {
+      const found = findSpecialUse(box.children, attrib, folderName + (box.delimiter || '/'));
+      if (found) return found;
+    }
+  }
+  return null;
 }
 
-export interface FetchOptions {
-  maxAgeDays: number;
-  batchSize: number;
-  includeRead: boolean;
-  includeUnread: boolean;
-  labels?: string[];  // Gmail labels to search in
+/** Fetch attributes, including Gmail labels when requested */
+type MessageAttributes = Imap.ImapMessageAttributes & { 'x-gm-labels'?: string[] };
+
+function readStream(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    stream.once('end', () => resolve(Buffer.concat(chunks)));
+    stream.once('error', reject);
+  });
 }
 
-export class ImapService {
+/**
+ * Run a node-imap command as a promise
+ * @param description What the command does, for the error message, e.g. "copy emails to Advertising"
+ */
+function imapCommand(description: string, run: (callback: (err?: Error | null) => void) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const callback = (err?: Error | null) => {
+      if (err) {
+        reject(new Error(`Failed to ${description}: ${err.message}`));
+        return;
+      }
+      resolve();
+    };
+    try {
+      run(callback);
+    } catch (err) {
+      // node-imap throws right away when the server lacks a capability, e.g. UIDPLUS
+      callback(err instanceof Error ? err : new Error(String(err)));
+    }
+  });
+}
+
+export class ImapService implements MailProvider {
   private imap: Imap;
+  private env: EnvConfig;
+  private oauth: GmailOAuth | null;
   private connected: boolean = false;
+  private disconnecting: boolean = false;
   private isGmail: boolean;
+  private connectionLostListeners: Array<(err?: Error) => void> = [];
+  private newMailListener: (() => void) | null = null;
+  private newMailPollTimer: NodeJS.Timeout | null = null;
+  private lastSeenUid: number = 0;
+  private lastSeenUidValidity: number = 0;
+  private currentBox: Imap.Box | null = null;
+  private localLabels: LocalLabelStore | null = null;
+  private trashFolder: string | null = null;
 
-  constructor() {
-    this.isGmail = config.imapHost.toLowerCase().includes('gmail');
-    
-    this.imap = new Imap({
-      user: config.emailUser,
-      password: config.emailPassword,
-      host: config.imapHost,
-      port: config.imapPort,
-      tls: config.imapTls,
+  /**
+   * @param env The account to connect to, with its own data directory and delete mode
+   */
+  constructor(env: EnvConfig = config) {
+    this.env = env;
+    this.isGmail = env.imapHost.toLowerCase().includes('gmail');
+    this.oauth = env.imapAuth === 'oauth2' ? new GmailOAuth(env) : null;
+    this.imap = this.createConnection();
+  }
+
+  /**
+   * @param xoauth2 XOAUTH2 token to log in with instead of the password
+   */
+  private createConnection(xoauth2?: string): Imap {
+    const { env } = this;
+    const imap = new Imap({
+      user: env.emailUser,
+      password: env.emailPassword,
+      xoauth2,  // Takes precedence over the password when the server supports it
+      host: env.imapHost,
+      port: env.imapPort,
+      tls: env.imapTls,
       // Gmail-specific settings
       ...(this.isGmail && {
         authTimeout: 30000,  // 30 seconds
@@ -45,39 +125,83 @@ export class ImapService {
       })
     });
 
-    this.setupEventHandlers();
+    this.setupEventHandlers(imap);
+    return imap;
   }
 
-  private setupEventHandlers(): void {
-    this.imap.on('ready', () => {
+  private setupEventHandlers(imap: Imap): void {
+    imap.on('ready', () => {
       this.connected = true;
       console.log('IMAP connection ready');
     });
 
-    this.imap.on('error', (err: Error) => {
-      console.error('IMAP error:', err);
+    imap.on('error', (err: Error & { source?: string }) => {
+      // Login failures are reported by connect()
+      if (err.source !== 'authentication') {
+        console.error('IMAP error:', err);
+      }
+      const wasConnected = this.connected;
       this.connected = false;
+      if (wasConnected) this.notifyConnectionLost(err);
     });
 
-    this.imap.on('end', () => {
+    // Emitted for new messages in the open mailbox (while IDLE, when supported)
+    imap.on('mail', () => {
+      this.newMailListener?.();
+    });
+
+    imap.on('end', () => {
       console.log('IMAP connection ended');
+      const wasConnected = this.connected;
       this.connected = false;
+      if (wasConnected) this.notifyConnectionLost();
     });
   }
 
+  private notifyConnectionLost(err?: Error): void {
+    if (this.disconnecting) return;
+    this.connectionLostListeners.forEach(listener => listener(err));
+  }
+
+  /**
+   * Register a callback for when an established connection drops
+   * (not called for disconnect())
+   */
+  public onConnectionLost(listener: (err?: Error) => void): void {
+    this.connectionLostListeners.push(listener);
+  }
+
+  public get isConnected(): boolean {
+    return this.connected;
+  }
+
   public async connect(): Promise<void> {
     if (this.connected) return;
 
+    if (this.oauth) {
+      // Each connection logs in with a fresh access token
+      this.imap = this.createConnection(await this.oauth.getXOAuth2Token());
+    }
+
     return new Promise((resolve, reject) => {
-      this.imap.once('ready', () => {
+      const onReady = () => {
+        this.imap.removeListener('error', onError);
         this.connected = true;
         resolve();
-      });
-
-      this.imap.once('error', (err: Error) => {
+      };
+      const onError = (err: Error & { source?: string }) => {
+        this.imap.removeListener('ready', onReady);
+        if (this.oauth && err.source === 'authentication') {
+          this.oauth.invalidate();
+          reject(new AuthorizationRequiredError(this.env.emailUser, `the server rejected the access token (${err.message})`));
+          return;
+        }
         reject(err);
-      });
+      };
 
+      this.imap.once('ready', onReady);
+      this.imap.once('error', onError);
+      this.disconnecting = false;
       this.imap.connect();
     });
   }
@@ -86,11 +210,12 @@ export class ImapService {
     if (!this.connected) return;
 
     return new Promise((resolve) => {
-      this.imap.end();
+      this.disconnecting = true;
       this.imap.once('end', () => {
         this.connected = false;
         resolve();
       });
+      this.imap.end();
     });
   }
 
@@ -222,70 +347,180 @@ export class ImapService {
   }
 
   /**
-   * Add a Gmail label to an email
+   * Add a label to an email. Gmail uses real labels; other servers get an
+   * IMAP keyword (e.g. "$Processed") when the mailbox allows custom keywords,
+   * otherwise the label is kept in the local label store.
    * @param emailId The ID of the email to label
    * @param label The label to add
+   * @param messageId The email's Message-ID, used by the local label store
+   * @param folderName The folder the email is in
    */
-  public async addLabel(emailId: string, label: string): Promise<void> {
+  public async addLabel(emailId: string, label: string, messageId?: string, folderName: string = 'INBOX'): Promise<void> {
     if (!this.connected) {
       throw new Error('Not connected to IMAP server');
     }
 
+    const box = await this.openFolder(folderName);
+
+    if (!this.isGmail && !box.newKeywords) {
+      this.getLocalLabels().add({
+        account: this.accountKey,
+        folder: folderName,
+        uidValidity: box.uidvalidity,
+        uid: parseInt(emailId, 10),
+        messageId
+      }, label);
+      return;
+    }
+
     return new Promise((resolve, reject) => {
-      this.imap.openBox('INBOX', false, (err) => {
-        if (err) {
-          reject(new Error(`Failed to open INBOX: ${err.message}`));
-          return;
-        }
+      if (this.isGmail && typeof (this.imap as any).addLabels === 'function') {
+        (this.imap as any).addLabels(emailId, label, (err: any) => {
+          if (err) {
+            reject(new Error(`Failed to add label "${label}": ${err.message}`));
+            return;
+          }
+          resolve();
+        });
+      } else {
+        const keyword = keywordForLabel(label);
+        this.imap.addKeywords(emailId, keyword, (err) => {
+          if (err) {
+            reject(new Error(`Failed to add keyword "${keyword}": ${err.message}`));
+            return;
+          }
+          resolve();
+        });
+      }
+    });
+  }
 
-        if (this.isGmail && typeof (this.imap as any).addLabels === 'function') {
-          (this.imap as any).addLabels(emailId, label, (err: any) => {
-            if (err) {
-              reject(new Error(`Failed to add label "${label}": ${err.message}`));
-              return;
-            }
-            resolve();
-          });
-        } else {
-          // For non-Gmail, use regular flags (not recommended for custom labels)
-          this.imap.addFlags(emailId, label, (err) => {
-            if (err) {
-              reject(new Error(`Failed to add flag "${label}": ${err.message}`));
-              return;
-            }
-            resolve();
-          });
-        }
-      });
+  /**
+   * Remove a label added with addLabel
+   * @param emailId The ID of the email
+   * @param label The label to remove
+   * @param messageId The email's Message-ID, used by the local label store
+   * @param folderName The folder the email is in
+   */
+  public async removeLabel(emailId: string, label: string, messageId?: string, folderName: string = 'INBOX'): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    const box = await this.openFolder(folderName);
+
+    if (!this.isGmail && !box.newKeywords) {
+      this.getLocalLabels().remove({
+        account: this.accountKey,
+        folder: folderName,
+        uidValidity: box.uidvalidity,
+        uid: parseInt(emailId, 10),
+        messageId
+      }, label);
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      if (this.isGmail) {
+        (this.imap as any).delLabels(emailId, label, (err: any) => {
+          if (err) {
+            reject(new Error(`Failed to remove label "${label}": ${err.message}`));
+            return;
+          }
+          resolve();
+        });
+      } else {
+        const keyword = keywordForLabel(label);
+        this.imap.delKeywords(emailId, keyword, (err) => {
+          if (err) {
+            reject(new Error(`Failed to remove keyword "${keyword}": ${err.message}`));
+            return;
+          }
+          resolve();
+        });
+      }
     });
   }
 
   /**
-   * Move an email to a different folder or add a label
+   * Whether the server has Gmail labels, so an email can be in several folders at once
+   */
+  public get hasLabels(): boolean {
+    return this.isGmail;
+  }
+
+  private getLocalLabels(): LocalLabelStore {
+    if (!this.localLabels) {
+      this.localLabels = new LocalLabelStore(openDatabase(databasePath(this.env.dataDir)));
+    }
+    return this.localLabels;
+  }
+
+  /**
+   * Whether processed tracking for the open folder falls back to the local label store
+   */
+  private get usesLocalLabels(): boolean {
+    return !this.isGmail && !!this.currentBox && !this.currentBox.newKeywords;
+  }
+
+  /**
+   * Drop emails marked Processed in the local label store (servers without keyword support)
+   * @param uids Search results from the open folder
+   */
+  private excludeLocallyProcessed(uids: number[], folderName: string): number[] {
+    if (!this.usesLocalLabels || !this.currentBox) return uids;
+    const processed = this.getLocalLabels().uidsWithLabel(this.accountKey, folderName, this.currentBox.uidvalidity, PROCESSED_LABEL);
+    return uids.filter(uid => !processed.has(uid));
+  }
+
+  /**
+   * Move an email to a different folder; on Gmail, swap the source folder's label for the target's.
+   * Uses UID MOVE when the server has it, otherwise COPY, \Deleted and
+   * UID EXPUNGE (UIDPLUS) so no other deleted messages are expunged.
    * @param emailId The ID of the email to move/label
    * @param targetFolder The destination folder or label
+   * @param sourceFolder The folder the email is in
    */
-  public async moveEmail(emailId: string, targetFolder: string): Promise<void> {
+  public async moveEmail(emailId: string, targetFolder: string, sourceFolder: string = 'INBOX'): Promise<void> {
     if (!this.connected) {
       throw new Error('Not connected to IMAP server');
     }
 
-    // For Gmail, we'll use labels instead of moving
+    // Gmail folders are labels: add the target's and take off the source's
     if (this.isGmail) {
-      return this.addLabel(emailId, targetFolder);
+      await this.addLabel(emailId, targetFolder, undefined, sourceFolder);
+      if (sourceFolder !== targetFolder) {
+        await this.removeLabel(emailId, gmailLabelForFolder(sourceFolder), undefined, sourceFolder);
+      }
+      return;
     }
 
-    // For non-Gmail, use the original move logic
+    await this.openFolder(sourceFolder);
+
+    if (this.imap.serverSupports('MOVE') || !this.imap.serverSupports('UIDPLUS')) {
+      // node-imap issues UID MOVE, or without UIDPLUS copies and expunges
+      // while temporarily unflagging any other \Deleted messages
+      return new Promise((resolve, reject) => {
+        this.imap.move(emailId, targetFolder, (err) => {
+          if (err) {
+            reject(new Error(`Failed to move email to "${targetFolder}": ${err.message}`));
+            return;
+          }
+          resolve();
+        });
+      });
+    }
+
+    await this.copyEmail(emailId, targetFolder, sourceFolder);
     return new Promise((resolve, reject) => {
-      this.imap.openBox('INBOX', false, (err) => {
+      this.imap.addFlags(emailId, '\\Deleted', (err) => {
         if (err) {
-          reject(err);
+          reject(new Error(`Copied to "${targetFolder}" but failed to mark original as deleted: ${err.message}`));
           return;
         }
-
-        this.imap.move([emailId], targetFolder, (err) => {
-          if (err) {
-            reject(err);
+        this.imap.expunge(emailId, (err2) => {
+          if (err2) {
+            reject(new Error(`Copied to "${targetFolder}" but failed to expunge original: ${err2.message}`));
             return;
           }
           resolve();
@@ -294,158 +529,680 @@ export class ImapService {
     });
   }
 
+  /**
+   * Copy an email to another folder, leaving the original in place
+   * @param emailId The ID of the email to copy
+   * @param targetFolder The destination folder
+   * @param sourceFolder The folder the email is in
+   */
+  public async copyEmail(emailId: string, targetFolder: string, sourceFolder: string = 'INBOX'): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    await this.openFolder(sourceFolder);
+    return new Promise((resolve, reject) => {
+      this.imap.copy(emailId, targetFolder, (err) => {
+        if (err) {
+          reject(new Error(`Failed to copy email to "${targetFolder}": ${err.message}`));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Archive an email: on Gmail remove it from the inbox, elsewhere move it to the Archive folder
+   * @param emailId The ID of the email to archive
+   * @param folderName The folder the email is in
+   */
+  public async archiveEmail(emailId: string, folderName: string = 'INBOX'): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    if (!this.isGmail) {
+      await this.ensureFolderExists(ARCHIVE_FOLDER);
+      return this.moveEmail(emailId, ARCHIVE_FOLDER, folderName);
+    }
+
+    await this.openFolder(folderName);
+    return new Promise((resolve, reject) => {
+      (this.imap as any).delLabels(emailId, '\\Inbox', (err: any) => {
+        if (err) {
+          reject(new Error(`Failed to archive email: ${err.message}`));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * The server's Trash folder: the folder LIST marks \\Trash, falling back to
+   * [Gmail]/Trash or Trash. Looked up once per session.
+   */
+  public async findTrashFolder(): Promise<string> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+    if (this.trashFolder) return this.trashFolder;
+
+    const boxes = await new Promise<Imap.MailBoxes>((resolve, reject) => {
+      this.imap.getBoxes((err, result) => {
+        if (err) {
+          reject(new Error(`Failed to list folders: ${err.message}`));
+          return;
+        }
+        resolve(result);
+      });
+    });
+
+    this.trashFolder = findSpecialUse(boxes, '\\Trash') || (this.isGmail ? GMAIL_TRASH_FOLDER : TRASH_FOLDER);
+    console.log(`Using "${this.trashFolder}" as the Trash folder`);
+    return this.trashFolder;
+  }
+
+  /**
+   * Move an email to the Trash folder, from where it can be restored until the
+   * server empties it (after 30 days on Gmail)
+   * @param emailId The ID of the email to trash
+   * @param folderName The folder the email is in
+   */
+  public async trashEmail(emailId: string, folderName: string = 'INBOX'): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    const trash = await this.findTrashFolder();
+    await this.openFolder(folderName);
+    // imap.move on Gmail really moves (Gmail's MOVE), unlike our label-based moveEmail.
+    // That takes the email out of every label, not just folderName.
+    return new Promise((resolve, reject) => {
+      this.imap.move(emailId, trash, (err) => {
+        if (err) {
+          reject(new Error(`Failed to move email to ${trash}: ${err.message}`));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Add a label to many emails in one folder, see addLabel. The folder is
+   * opened once and the labels are stored in UID-set chunks.
+   * @returns Failures by UID
+   */
+  public async addLabels(emails: Array<Pick<Email, 'id' | 'messageId'>>, label: string, folderName: string = 'INBOX'): Promise<BatchFailures> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    const box = await this.openFolder(folderName);
+
+    if (!this.isGmail && !box.newKeywords) {
+      const localLabels = this.getLocalLabels();
+      for (const email of emails) {
+        localLabels.add({
+          account: this.accountKey,
+          folder: folderName,
+          uidValidity: box.uidvalidity,
+          uid: parseInt(email.id, 10),
+          messageId: email.messageId
+        }, label);
+      }
+      return new Map();
+    }
+
+    const keyword = keywordForLabel(label);
+    return runInChunks(emails.map(email => email.id), UID_CHUNK_SIZE, uids => this.isGmail
+      ? imapCommand(`add label "${label}"`, callback => (this.imap as any).addLabels(uids, label, callback))
+      : imapCommand(`add keyword "${keyword}"`, callback => this.imap.addKeywords(uids, keyword, callback)));
+  }
+
+  /**
+   * Move many emails from one folder to another, see moveEmail
+   * @returns Failures by UID
+   */
+  public async moveEmails(emailIds: string[], targetFolder: string, sourceFolder: string = 'INBOX'): Promise<BatchFailures> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    // Gmail folders are labels: add the target's and take off the source's
+    if (this.isGmail) {
+      const failures = await this.addLabels(emailIds.map(id => ({ id })), targetFolder, sourceFolder);
+      if (sourceFolder === targetFolder) return failures;
+      const sourceLabel = gmailLabelForFolder(sourceFolder);
+      const labeled = emailIds.filter(id => !failures.has(id));
+      const unmoved = await runInChunks(labeled, UID_CHUNK_SIZE, uids =>
+        imapCommand(`remove label "${sourceLabel}"`, callback => (this.imap as any).delLabels(uids, sourceLabel, callback)));
+      for (const [id, err] of unmoved) {
+        failures.set(id, new Error(`Labeled "${targetFolder}" but failed to leave "${sourceFolder}": ${err.message}`));
+      }
+      return failures;
+    }
+
+    await this.openFolder(sourceFolder);
+
+    if (this.imap.serverSupports('MOVE') || !this.imap.serverSupports('UIDPLUS')) {
+      return runInChunks(emailIds, UID_CHUNK_SIZE, uids =>
+        imapCommand(`move emails to "${targetFolder}"`, callback => this.imap.move(uids, targetFolder, callback)));
+    }
+
+    const failures = await runInChunks(emailIds, UID_CHUNK_SIZE, uids =>
+      imapCommand(`copy emails to "${targetFolder}"`, callback => this.imap.copy(uids, targetFolder, callback)));
+    const copied = emailIds.filter(id => !failures.has(id));
+    for (const [id, err] of await this.expungeEmails(copied)) {
+      failures.set(id, new Error(`Copied to "${targetFolder}" but failed to remove the original: ${err.message}`));
+    }
+    return failures;
+  }
+
+  /**
+   * Copy many emails to another folder, leaving the originals in place
+   * @returns Failures by UID
+   */
+  public async copyEmails(emailIds: string[], targetFolder: string, sourceFolder: string = 'INBOX'): Promise<BatchFailures> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    await this.openFolder(sourceFolder);
+    return runInChunks(emailIds, UID_CHUNK_SIZE, uids =>
+      imapCommand(`copy emails to "${targetFolder}"`, callback => this.imap.copy(uids, targetFolder, callback)));
+  }
+
+  /**
+   * Move many emails to the Trash folder, see trashEmail
+   * @returns Failures by UID
+   */
+  public async trashEmails(emailIds: string[], folderName: string = 'INBOX'): Promise<BatchFailures> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    const trash = await this.findTrashFolder();
+    await this.openFolder(folderName);
+    return runInChunks(emailIds, UID_CHUNK_SIZE, uids =>
+      imapCommand(`move emails to ${trash}`, callback => this.imap.move(uids, trash, callback)));
+  }
+
+  /**
+   * Fetch the raw RFC 822 source of an email, with its flags and internal date
+   * @param emailId The ID of the email
+   * @param folderName The folder the email is in
+   */
+  public async fetchSource(emailId: string, folderName: string = 'INBOX'): Promise<RawMessage> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    await this.openFolder(folderName);
+    return new Promise((resolve, reject) => {
+      let source: Promise<Buffer> | null = null;
+      let attributes: MessageAttributes | null = null;
+      const fetch = this.imap.fetch(emailId, { bodies: [''] });  // Flags and date always come with the attributes
+
+      fetch.on('message', (msg) => {
+        msg.on('body', (stream) => {
+          source = readStream(stream);
+        });
+        msg.once('attributes', (attrs) => {
+          attributes = attrs;
+        });
+      });
+
+      fetch.once('error', (err) => {
+        reject(new Error(`Failed to fetch email source: ${err.message}`));
+      });
+
+      fetch.once('end', async () => {
+        if (!source || !attributes) {
+          reject(new Error(`Email ${emailId} not found in "${folderName}"`));
+          return;
+        }
+        const attrs: MessageAttributes = attributes;
+        try {
+          resolve({ source: await source, flags: attrs.flags || [], date: attrs.date });
+        } catch (err) {
+          reject(err);
+        }
+      });
+    });
+  }
+
+  /**
+   * Upload a raw message into a folder (IMAP APPEND), e.g. to restore a backup
+   */
+  public async appendMessage(message: RawMessage, folderName: string): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    await this.ensureFolderExists(folderName);
+    // Only system flags; keywords may not be allowed in the target folder
+    const flags = message.flags.filter(flag => flag.startsWith('\\') && flag !== '\\Recent');
+    return new Promise((resolve, reject) => {
+      this.imap.append(message.source, { mailbox: folderName, flags, date: message.date }, (err) => {
+        if (err) {
+          reject(new Error(`Failed to append email to "${folderName}": ${err.message}`));
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * UIDs of the messages in a folder with the given Message-ID header
+   */
+  public async findByMessageId(messageId: string, folderName: string = 'INBOX'): Promise<string[]> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    await this.openFolder(folderName);
+    const uids = await this.search([['HEADER', 'MESSAGE-ID', messageId]]);
+    return uids.map(uid => uid.toString());
+  }
+
   async fetchEmails(options: FetchOptions, folderName: string = 'INBOX'): Promise<Email[]> {
     if (!this.connected) {
       throw new Error('Not connected to IMAP server');
     }
 
+    await this.openFolder(folderName);
+    console.log(`Fetching emails from folder: ${folderName}`);
+
+    let results = await this.search(this.buildSearchCriteria(options));
+    if (!options.includeProcessed) {
+      results = this.excludeLocallyProcessed(results, folderName);
+    }
+    if (results.length === 0) {
+      console.log(`No emails found in ${folderName}`);
+      return [];
+    }
+
+    console.log(`Found ${results.length} emails in ${folderName}`);
+
+    // Limit results to the newest batch size, like a Gmail listing
+    const emails = await this.fetchMessages(results.sort((a, b) => a - b).slice(-(options.batchSize || 100)), folderName);
+    return options.includeProcessed ? emails : emails.filter(email => !this.isProcessed(email));
+  }
+
+  /**
+   * Walk every email matching the options in batches of options.batchSize.
+   * With options.incremental, only UIDs above the high-water mark saved by the
+   * previous run are visited, and the mark advances after each batch is consumed.
+   * @param options Search options
+   * @param folderName The folder to walk
+   */
+  async *iterateEmails(options: FetchOptions, folderName: string = 'INBOX'): AsyncGenerator<Email[]> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    const box = await this.openFolder(folderName);
+    const syncState = options.incremental ? new SyncStateStore(openDatabase(databasePath(this.env.dataDir))) : null;
+    const criteria = this.buildSearchCriteria(options);
+
+    let startUid = 0;
+    if (syncState) {
+      const state = syncState.get(this.accountKey, folderName);
+      if (state && state.uidValidity === box.uidvalidity) {
+        startUid = state.highWaterUid;
+        criteria.push(['UID', `${startUid + 1}:*`]);
+        console.log(`Resuming ${folderName} after UID ${startUid}`);
+      } else if (state) {
+        console.log(`UIDVALIDITY of ${folderName} changed (mailbox was rebuilt), starting from the beginning`);
+      }
+    }
+
+    // "n:*" always matches the highest UID, even when it is below n
+    let uids = (await this.search(criteria))
+      .filter(uid => uid > startUid)
+      .sort((a, b) => a - b);
+    if (!options.includeProcessed) {
+      uids = this.excludeLocallyProcessed(uids, folderName);
+    }
+    console.log(`Found ${uids.length} emails in ${folderName}`);
+
+    const batchSize = options.batchSize || 100;
+    let firstUnhandled: number | null = null;
+    for (let i = 0; i < uids.length; i += batchSize) {
+      const batch = uids.slice(i, i + batchSize);
+
+      // The consumer may have opened another folder while handling the previous batch
+      const current = await this.openFolder(folderName);
+      if (current.uidvalidity !== box.uidvalidity) {
+        throw new Error(`UIDVALIDITY of ${folderName} changed during iteration`);
+      }
+
+      const emails = await this.fetchMessages(batch, folderName);
+      yield options.includeProcessed ? emails : emails.filter(email => !this.isProcessed(email));
+
+      // Don't resume past an email the consumer couldn't handle, so the next run retries it
+      firstUnhandled ??= batch.find(uid => options.unhandled?.has(String(uid))) ?? null;
+      const highWaterUid = firstUnhandled !== null ? firstUnhandled - 1 : batch[batch.length - 1];
+      syncState?.set(this.accountKey, folderName, box.uidvalidity, highWaterUid);
+    }
+  }
+
+  /**
+   * Identifies this mailbox in local state shared between accounts
+   */
+  private get accountKey(): string {
+    return `${this.env.emailUser}@${this.env.imapHost}`;
+  }
+
+  private isProcessed(email: Email): boolean {
+    return (email.labels || []).includes(PROCESSED_LABEL);
+  }
+
+  /**
+   * Build search criteria for the currently open folder
+   */
+  private buildSearchCriteria(options: FetchOptions): any[] {
+    // Build search criteria
+    const searchCriteria: any[] = [];
+    
+    if (this.isGmail) {
+      // Use Gmail's X-GM-RAW to exclude Processed label
+      const rawQuery: string[] = options.includeProcessed ? [] : [`-label:${PROCESSED_LABEL}`];
+      if (options.maxAgeDays) {
+        const date = new Date();
+        date.setDate(date.getDate() - options.maxAgeDays);
+        // Gmail's search uses yyyy/mm/dd
+        const y = date.getFullYear();
+        const m = String(date.getMonth() + 1).padStart(2, '0');
+        const d = String(date.getDate()).padStart(2, '0');
+        rawQuery.push(`after:${y}/${m}/${d}`);
+      }
+      if (options.minAgeDays) {
+        rawQuery.push(`older_than:${options.minAgeDays}d`);
+      }
+      searchCriteria.push(rawQuery.length > 0 ? ['X-GM-RAW', rawQuery.join(' ')] : 'ALL');
+    } else {
+      // For non-Gmail, use standard IMAP search
+      searchCriteria.push('ALL');
+      
+      // Add date criteria if specified
+      if (options.maxAgeDays) {
+        const date = new Date();
+        date.setDate(date.getDate() - options.maxAgeDays);
+        searchCriteria.push(['SINCE', date]);
+      }
+      if (options.minAgeDays) {
+        const date = new Date();
+        date.setDate(date.getDate() - options.minAgeDays + 1);
+        searchCriteria.push(['BEFORE', date]);
+      }
+
+      // Exclude processed emails by keyword; without keyword support the
+      // local label store is applied to the results instead
+      if (!options.includeProcessed && this.currentBox?.newKeywords) {
+        searchCriteria.push(['UNKEYWORD', keywordForLabel(PROCESSED_LABEL)]);
+      }
+
+      // Add read/unread criteria
+      if (!options.includeRead && !options.includeUnread) {
+        searchCriteria.push('UNSEEN');
+      } else if (options.includeRead && !options.includeUnread) {
+        searchCriteria.push('SEEN');
+      } else if (!options.includeRead && options.includeUnread) {
+        searchCriteria.push('UNSEEN');
+      }
+    }
+
+    return searchCriteria;
+  }
+
+  private search(criteria: any[]): Promise<number[]> {
+    return new Promise((resolve, reject) => {
+      this.imap.search(criteria, (err, results) => {
+        if (err) {
+          reject(new Error(`Search failed: ${err.message}`));
+          return;
+        }
+        resolve(results || []);
+      });
+    });
+  }
+
+  private openFolder(folderName: string): Promise<Imap.Box> {
     return new Promise((resolve, reject) => {
       this.imap.openBox(folderName, false, (err, box) => {
         if (err) {
           reject(new Error(`Failed to open folder "${folderName}": ${err.message}`));
           return;
         }
+        this.currentBox = box;
+        resolve(box);
+      });
+    });
+  }
 
-        console.log(`Fetching emails from folder: ${folderName}`);
-
-        // Build search criteria
-        const searchCriteria: any[] = [];
-        
-        if (this.isGmail) {
-          // Use Gmail's X-GM-RAW to exclude Processed label
-          let rawQuery = '-label:Processed';
-          if (options.maxAgeDays) {
-            const date = new Date();
-            date.setDate(date.getDate() - options.maxAgeDays);
-            // Gmail's search uses yyyy/mm/dd
-            const y = date.getFullYear();
-            const m = String(date.getMonth() + 1).padStart(2, '0');
-            const d = String(date.getDate()).padStart(2, '0');
-            rawQuery += ` after:${y}/${m}/${d}`;
-          }
-          searchCriteria.push(['X-GM-RAW', rawQuery]);
-        } else {
-          // For non-Gmail, use standard IMAP search
-          searchCriteria.push('ALL');
-          
-          // Add date criteria if specified
-          if (options.maxAgeDays) {
-            const date = new Date();
-            date.setDate(date.getDate() - options.maxAgeDays);
-            searchCriteria.push(['SINCE', date]);
-          }
+  /**
+   * Fetch and parse the full messages, labels and flags for the given UIDs in the currently open folder
+   * @param uids UIDs of the messages to fetch
+   * @param folderName Name of the open folder, used to look up locally stored labels
+   */
+  private fetchMessages(uids: number[], folderName: string = 'INBOX'): Promise<Email[]> {
+    const uidValidity = this.currentBox?.uidvalidity ?? 0;
+    const localLabels = this.usesLocalLabels ? this.getLocalLabels() : null;
 
-          // Add read/unread criteria
-          if (!options.includeRead && !options.includeUnread) {
-            searchCriteria.push('UNSEEN');
-          } else if (options.includeRead && !options.includeUnread) {
-            searchCriteria.push('SEEN');
-          } else if (!options.includeRead && options.includeUnread) {
-            searchCriteria.push('UNSEEN');
-          }
-        }
+    return new Promise((resolve, reject) => {
+      if (uids.length === 0) {
+        resolve([]);
+        return;
+      }
 
-        // Fetch emails
-        const fetchOptions = {
-          bodies: ['HEADER.FIELDS (FROM TO SUBJECT DATE)', 'TEXT'],
-          struct: true,
-          envelope: true,
-          flags: true,
-          labels: true  // Request Gmail labels
-        };
+      const fetchOptions = {
+        bodies: [''],  // The whole RFC 822 message, decoded by simpleParser
+        flags: true,
+        labels: true  // Request Gmail labels
+      };
 
-        this.imap.search(searchCriteria, (err, results) => {
-          if (err) {
-            reject(new Error(`Search failed: ${err.message}`));
-            return;
-          }
+      const parsing: Promise<Email | null>[] = [];
+      const fetch = this.imap.fetch(uids, fetchOptions);
 
-          if (!results || results.length === 0) {
-            console.log(`No emails found in ${folderName}`);
-            resolve([]);
-            return;
-          }
+      fetch.on('message', (msg) => {
+        let source: Promise<Buffer> = Promise.resolve(Buffer.alloc(0));
+        let attributes: MessageAttributes | null = null;
 
-          console.log(`Found ${results.length} emails in ${folderName}`);
-
-          // Limit results to batch size
-          const limitedResults = results.slice(0, options.batchSize || 100);
-
-          const emails: Email[] = [];
-          let processedCount = 0;
-
-          const fetch = this.imap.fetch(limitedResults, fetchOptions);
-
-          fetch.on('message', (msg) => {
-            const email: Email = {
-              id: '',
-              subject: '',
-              sender: '',
-              date: new Date(),
-              ageInDays: 0,
-              labels: [],
-              body: '',
-              html: '',
-              text: ''
-            };
-
-            msg.on('body', (stream, info) => {
-              let buffer = '';
-              stream.on('data', (chunk) => {
-                buffer += chunk.toString('utf8');
-              });
-
-              stream.once('end', () => {
-                if (info.which === 'HEADER.FIELDS (FROM TO SUBJECT DATE)') {
-                  const header = Imap.parseHeader(buffer);
-                  email.subject = header.subject?.[0] || '';
-                  email.sender = header.from?.[0] || '';
-                  if (header.date?.[0]) {
-                    email.date = new Date(header.date[0]);
-                    email.ageInDays = Math.floor((Date.now() - email.date.getTime()) / (1000 * 60 * 60 * 24));
-                  }
-                }
-              });
-            });
+        msg.on('body', (stream) => {
+          source = readStream(stream);
+        });
 
-            msg.once('attributes', (attrs) => {
-              email.id = attrs.uid.toString();
-              
-              // Get Gmail labels from X-GM-LABELS attribute
-              if (this.isGmail && attrs['x-gm-labels']) {
-                email.labels = attrs['x-gm-labels'];
-              } else if (attrs.flags) {
-                email.labels = attrs.flags.map((flag: string) => flag.toString());
-              }
-            });
+        msg.once('attributes', (attrs) => {
+          attributes = attrs;
+        });
 
-            msg.once('end', () => {
-              emails.push(email);
-              processedCount++;
-              if (processedCount === limitedResults.length) {
-                resolve(emails);
-              }
-            });
-          });
+        const done = new Promise<void>(resolveMessage => msg.once('end', () => resolveMessage()));
+        parsing.push(done.then(async () => {
+          if (!attributes) return null;
+          try {
+            return this.toEmail(await simpleParser(await source), attributes, folderName, uidValidity, localLabels);
+          } catch (err) {
+            console.error(`Failed to parse message UID ${attributes.uid}:`, err);
+            return null;
+          }
+        }));
+      });
 
-          fetch.once('error', (err) => {
-            reject(new Error(`Fetch error: ${err.message}`));
-          });
+      fetch.once('error', (err) => {
+        reject(new Error(`Fetch error: ${err.message}`));
+      });
 
-          fetch.once('end', () => {
-            if (processedCount === 0) {
-              resolve([]);
-            }
-          });
-        });
+      // 'end' is emitted after every message has been fully received
+      fetch.once('end', () => {
+        Promise.all(parsing).then(
+          emails => resolve(emails.filter((email): email is Email => email !== null)),
+          reject
+        );
       });
     });
   }
 
+  private toEmail(
+    parsed: ParsedMail,
+    attrs: MessageAttributes,
+    folderName: string,
+    uidValidity: number,
+    localLabels: LocalLabelStore | null
+  ): Email {
+    const email: Email = {
+      ...toEmail(attrs.uid.toString(), parsed),
+      flags: attrs.flags || []
+    };
+
+    // Get Gmail labels from X-GM-LABELS attribute
+    if (this.isGmail && attrs['x-gm-labels']) {
+      email.labels = attrs['x-gm-labels'];
+    } else if (attrs.flags) {
+      // Keywords we set for labels ("$Advertising") are reported by label name
+      email.labels = attrs.flags.map((flag: string) => flag.toString().replace(/^\$/, ''));
+    }
+
+    if (localLabels) {
+      const stored = localLabels.labelsFor({
+        account: this.accountKey,
+        folder: folderName,
+        uidValidity,
+        uid: attrs.uid,
+        messageId: email.messageId
+      });
+      email.labels = [...new Set([...(email.labels || []), ...stored])];
+    }
+    return email;
+  }
+
+  /**
+   * Keep INBOX selected and get notified when new mail arrives. Uses IMAP IDLE
+   * when the server advertises it and falls back to polling otherwise.
+   * Call fetchNewEmails() from the listener to retrieve the new messages.
+   * @param listener Called whenever new mail may be available
+   * @param pollIntervalMs Polling interval used when IDLE is not supported
+   */
+  public async subscribeToNewMail(listener: () => void, pollIntervalMs: number): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    const box = await this.openInbox();
+    this.lastSeenUid = box.uidnext - 1;
+    this.lastSeenUidValidity = box.uidvalidity;
+    this.newMailListener = listener;
+
+    if (this.newMailPollTimer) {
+      clearInterval(this.newMailPollTimer);
+      this.newMailPollTimer = null;
+    }
+    if (this.imap.serverSupports('IDLE')) {
+      console.log('Listening for new mail using IMAP IDLE');
+    } else {
+      console.log(`Server does not support IDLE, polling for new mail every ${Math.round(pollIntervalMs / 1000)} seconds`);
+      this.newMailPollTimer = setInterval(() => this.newMailListener?.(), pollIntervalMs);
+    }
+  }
+
+  public unsubscribeFromNewMail(): void {
+    this.newMailListener = null;
+    if (this.newMailPollTimer) {
+      clearInterval(this.newMailPollTimer);
+      this.newMailPollTimer = null;
+    }
+  }
+
+  /**
+   * Re-select INBOX after other folders were opened (or after a reconnect)
+   * so IDLE notifications resume
+   */
+  public async resumeNewMailSubscription(): Promise<void> {
+    if (!this.newMailListener || !this.connected) return;
+    await this.openInbox();
+  }
+
+  /**
+   * Fetch INBOX messages that arrived since the subscription started or since the last call
+   */
+  public async fetchNewEmails(): Promise<Email[]> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+
+    const box = await this.openInbox();
+    if (box.uidvalidity !== this.lastSeenUidValidity) {
+      // The mailbox was rebuilt and old UIDs are meaningless; start over from here
+      console.log('INBOX UIDVALIDITY changed, resetting new mail tracking');
+      this.lastSeenUid = box.uidnext - 1;
+      this.lastSeenUidValidity = box.uidvalidity;
+      return [];
+    }
+
+    // "n:*" always matches the highest UID, even when it is below n
+    const uids = (await this.search([['UID', `${this.lastSeenUid + 1}:*`]]))
+      .filter(uid => uid > this.lastSeenUid);
+
+    if (uids.length === 0) {
+      return [];
+    }
+    this.lastSeenUid = Math.max(...uids);
+    console.log(`Found ${uids.length} new emails in INBOX`);
+    return this.fetchMessages(uids, 'INBOX');
+  }
+
+  private openInbox(): Promise<Imap.Box> {
+    return this.openFolder('INBOX');
+  }
+
+  /**
+   * Delete an email. Moves it to the Trash unless HARD_DELETE is set (or it
+   * is already in the Trash), in which case it is expunged permanently.
+   */
   async deleteEmail(emailId: string, folderName: string): Promise<void> {
     if (!this.connected) {
       throw new Error('Not connected to IMAP server');
     }
+    if (!this.env.hardDelete && folderName !== await this.findTrashFolder()) {
+      return this.trashEmail(emailId, folderName);
+    }
+    return this.expungeEmail(emailId, folderName);
+  }
+
+  /**
+   * Delete many emails from one folder, see deleteEmail
+   * @returns Failures by UID
+   */
+  async deleteEmails(emailIds: string[], folderName: string): Promise<BatchFailures> {
+    if (!this.connected) {
+      throw new Error('Not connected to IMAP server');
+    }
+    if (!this.env.hardDelete && folderName !== await this.findTrashFolder()) {
+      return this.trashEmails(emailIds, folderName);
+    }
+    await this.openFolder(folderName);
+    return this.expungeEmails(emailIds);
+  }
+
+  /**
+   * Permanently delete emails in the open folder: flag them \\Deleted and
+   * UID EXPUNGE just those, so no other deleted messages are expunged
+   */
+  private expungeEmails(emailIds: string[]): Promise<BatchFailures> {
+    return runInChunks(emailIds, UID_CHUNK_SIZE, async uids => {
+      await imapCommand('mark emails as deleted', callback => this.imap.addFlags(uids, '\\Deleted', callback));
+      await imapCommand('expunge emails', callback => this.imap.expunge(uids, callback));
+    });
+  }
+
+  /**
+   * Permanently delete an email: flag it \\Deleted and expunge it
+   */
+  private async expungeEmail(emailId: string, folderName: string): Promise<void> {
     return new Promise((resolve, reject) => {
       this.imap.openBox(folderName, false, (err) => {
         if (err) {
@@ -468,4 +1225,4 @@ export class ImapService {
       });
     });
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { ParsedMail } from 'mailparser';
+import { EmailHeaders, extractHeaders } from './headers';
+import { cleanBody } from '../../utils/text';
+
+/** Label that marks emails as already handled; excluded from fetches by default */
+export const PROCESSED_LABEL = 'Processed';
+
+/** Maximum length of Email.body, the cleaned text handed to the classifiers */
+const MAX_BODY_LENGTH = 2000;
+
+export interface Email {
+  id: string;          // IMAP UID, or Gmail API message ID
+  messageId?: string;  // RFC 5322 Message-ID header
+  subject: string;
+  sender: string;
+  date: Date;
+  ageInDays: number;
+  body: string;
+  html: string;
+  text: string;
+  labels?: string[];  // Gmail labels
+  flags?: string[];   // IMAP system flags and keywords, e.g. \Seen, \Flagged
+  headers?: EmailHeaders;  // Bulk mail headers (List-Unsubscribe, Precedence, ...)
+}
+
+/**
+ * The fields that identify an email in local records, e.g. the audit log
+ */
+export type EmailRef = Pick<Email, 'id' | 'messageId' | 'sender' | 'subject'>;
+
+/**
+ * An email exactly as stored on the server
+ */
+export interface RawMessage {
+  source: Buffer;   // RFC 822 source
+  flags: string[];
+  date: Date;       // Internal (received) date
+}
+
+export interface FetchOptions {
+  maxAgeDays: number;     // 0 for no lower bound on the date
+  minAgeDays?: number;    // Only emails at least this many days old
+  batchSize: number;
+  includeRead: boolean;
+  includeUnread: boolean;
+  labels?: string[];  // Gmail labels to search in
+  includeProcessed?: boolean;  // Gmail: don't exclude emails already labeled Processed
+  incremental?: boolean;  // iterateEmails: resume after the last email seen by the previous run
+  unhandled?: Set<string>;  // iterateEmails: IDs the consumer failed to handle; the next run visits them again
+}
+
+/**
+ * Per-email failures of a batch operation, by email ID; empty when every email succeeded
+ */
+export type BatchFailures = Map<string, Error>;
+
+/**
+ * Access to a mailbox, over IMAP (ImapService) or the Gmail REST API
+ * (GmailApiService), selected by EMAIL_PROVIDER. Folders are labels on
+ * servers that have them; email IDs are only meaningful within a folder.
+ */
+export interface MailProvider {
+  readonly isConnected: boolean;
+  /** Whether an email can be in several folders at once (Gmail labels) */
+  readonly hasLabels: boolean;
+
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  /** Register a callback for when an established connection drops */
+  onConnectionLost(listener: (err?: Error) => void): void;
+
+  listFolders(): Promise<string[]>;
+  createFolder(folderName: string): Promise<void>;
+  ensureFolderExists(folderName: string): Promise<void>;
+  deleteFolder(folderName: string): Promise<void>;
+
+  /** The newest options.batchSize emails matching the options */
+  fetchEmails(options: FetchOptions, folderName?: string): Promise<Email[]>;
+  /** Walk every matching email in batches, optionally resuming after the previous run */
+  iterateEmails(options: FetchOptions, folderName?: string): AsyncGenerator<Email[]>;
+  /** IDs of the emails in a folder with this Message-ID */
+  findByMessageId(messageId: string, folderName?: string): Promise<string[]>;
+  fetchSource(emailId: string, folderName?: string): Promise<RawMessage>;
+  appendMessage(message: RawMessage, folderName: string): Promise<void>;
+
+  addLabel(emailId: string, label: string, messageId?: string, folderName?: string): Promise<void>;
+  removeLabel(emailId: string, label: string, messageId?: string, folderName?: string): Promise<void>;
+  moveEmail(emailId: string, targetFolder: string, sourceFolder?: string): Promise<void>;
+  copyEmail(emailId: string, targetFolder: string, sourceFolder?: string): Promise<void>;
+  archiveEmail(emailId: string, folderName?: string): Promise<void>;
+  trashEmail(emailId: string, folderName?: string): Promise<void>;
+  /** Move to the Trash, or remove permanently with HARD_DELETE */
+  deleteEmail(emailId: string, folderName: string): Promise<void>;
+
+  // Batch versions of the above: the folder is opened once and the emails are
+  // changed in chunks. Failures are reported per email instead of thrown.
+  addLabels(emails: Array<Pick<Email, 'id' | 'messageId'>>, label: string, folderName?: string): Promise<BatchFailures>;
+  moveEmails(emailIds: string[], targetFolder: string, sourceFolder?: string): Promise<BatchFailures>;
+  copyEmails(emailIds: string[], targetFolder: string, sourceFolder?: string): Promise<BatchFailures>;
+  trashEmails(emailIds: string[], folderName?: string): Promise<BatchFailures>;
+  deleteEmails(emailIds: string[], folderName: string): Promise<BatchFailures>;
+
+  /** Get notified when new INBOX mail may be available; see fetchNewEmails */
+  subscribeToNewMail(listener: () => void, pollIntervalMs: number): Promise<void>;
+  unsubscribeFromNewMail(): void;
+  resumeNewMailSubscription(): Promise<void>;
+  /** INBOX emails that arrived since the subscription started or since the last call */
+  fetchNewEmails(): Promise<Email[]>;
+}
+
+/**
+ * The provider-independent fields of an Email, from a parsed message
+ */
+export function toEmail(id: string, parsed: ParsedMail): Email {
+  const date = parsed.date || new Date();
+  // simpleParser converts HTML to text when there is no plain part
+  const text = parsed.text || '';
+
+  return {
+    id,
+    messageId: parsed.messageId,
+    subject: parsed.subject || '',
+    sender: parsed.from?.text || '',
+    date,
+    ageInDays: Math.floor((Date.now() - date.getTime()) / (1000 * 60 * 60 * 24)),
+    labels: [],
+    body: cleanBody(text, MAX_BODY_LENGTH),
+    html: parsed.html || '',
+    text,
+    headers: extractHeaders(parsed.headerLines)
+  };
+}
+
+/**
+ * Run a batch operation over email IDs in chunks. When a chunk fails, its
+ * emails are retried one at a time, so one bad ID doesn't fail the rest
+ * and each failure is reported against its own email.
+ * @param run The operation, applied to each chunk of IDs
+ */
+export async function runInChunks(emailIds: string[], chunkSize: number, run: (chunk: string[]) => Promise<void>): Promise<BatchFailures> {
+  const failures: BatchFailures = new Map();
+  const toError = (err: unknown) => err instanceof Error ? err : new Error(String(err));
+
+  for (let i = 0; i < emailIds.length; i += chunkSize) {
+    const chunk = emailIds.slice(i, i + chunkSize);
+    try {
+      await run(chunk);
+    } catch (err) {
+      if (chunk.length === 1) {
+        failures.set(chunk[0], toError(err));
+        continue;
+      }
+      for (const emailId of chunk) {
+        try {
+          await run([emailId]);
+        } catch (err2) {
+          failures.set(emailId, toError(err2));
+        }
+      }
+    }
+  }
+  return failures;
+}
@@ -0,0 +1,12 @@
+import { MailProvider } from './MailProvider';
+import { ImapService } from './ImapService';
+import { GmailApiService } from './GmailApiService';
+import { config, EnvConfig } from '../../config/env';
+
+/**
+ * Create the mail provider selected by EMAIL_PROVIDER
+ * @param env The account to connect to
+ */
+export function createMailProvider(env: EnvConfig = config): MailProvider {
+  return env.emailProvider === 'gmail' ? new GmailApiService(env) : new ImapService(env);
+}
@@ -0,0 +1,58 @@
+import { HeaderLines } from 'mailparser';
+
+/**
+ * Headers that bulk and marketing mail typically carries
+ */
+export interface EmailHeaders {
+  listUnsubscribe?: string;
+  listUnsubscribePost?: string;  // "List-Unsubscribe=One-Click" for RFC 8058 one-click unsubscribe
+  listId?: string;
+  precedence?: string;
+  autoSubmitted?: string;
+  returnPath?: string;
+  replyTo?: string;
+  esps: string[];                // Email service providers identified by their tracking headers
+}
+
+/**
+ * Header names left by common email service providers
+ */
+const ESP_FINGERPRINTS: Array<{ esp: string; pattern: RegExp }> = [
+  { esp: 'Mailgun', pattern: /^x-mailgun-/ },
+  { esp: 'SendGrid', pattern: /^x-sg-(eid|id)$/ },
+  { esp: 'Mailchimp', pattern: /^x-mc-user$|^x-mailchimp-/ },
+  { esp: 'Mandrill', pattern: /^x-mandrill-user$/ },
+  { esp: 'Klaviyo', pattern: /^x-klaviyo-|^x-kmail-/ },
+  { esp: 'SparkPost', pattern: /^x-msys-api$/ },
+  { esp: 'Salesforce Marketing Cloud', pattern: /^x-sfmc-/ },
+  { esp: 'Amazon SES', pattern: /^x-ses-outgoing$/ }
+];
+
+/**
+ * Pick the bulk mail headers out of a parsed message's raw header lines
+ */
+export function extractHeaders(headerLines: HeaderLines): EmailHeaders {
+  const values = new Map<string, string>();
+  const esps = new Set<string>();
+
+  for (const { key, line } of headerLines) {
+    // Unfold continuation lines and drop the "Name:" prefix
+    const value = line.slice(line.indexOf(':') + 1).replace(/\r?\n[ \t]+/g, ' ').trim();
+    if (!values.has(key)) values.set(key, value);
+
+    ESP_FINGERPRINTS
+      .filter(({ pattern }) => pattern.test(key))
+      .forEach(({ esp }) => esps.add(esp));
+  }
+
+  return {
+    listUnsubscribe: values.get('list-unsubscribe'),
+    listUnsubscribePost: values.get('list-unsubscribe-post'),
+    listId: values.get('list-id'),
+    precedence: values.get('precedence'),
+    autoSubmitted: values.get('auto-submitted'),
+    returnPath: values.get('return-path'),
+    replyTo: values.get('reply-to'),
+    esps: [...esps]
+  };
+}
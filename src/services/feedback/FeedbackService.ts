@@ -0,0 +1,125 @@
+import { MailProvider, Email } from '../email/MailProvider';
+import { Classifier, TrainingExample } from '../classifier/Classifier';
+import { AuditLog, AuditEntry } from '../storage/AuditLog';
+import { FeedbackStore } from '../storage/FeedbackStore';
+import { ADVERTISING_CATEGORY } from '../classifier/taxonomy';
+
+export interface FeedbackSummary {
+  checked: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+export interface FeedbackOptions {
+  advertisingLabel: string;
+  maxAgeDays: number;
+  batchSize: number;
+}
+
+/**
+ * Check whether an email currently carries a label, ignoring case and the
+ * "[Gmail]/" prefix Gmail reports for some labels
+ */
+function hasLabel(email: Email, label: string): boolean {
+  const normalize = (name: string) => name.replace(/^\[Gmail\]\//, '').replace(/^\\/, '').toLowerCase();
+  const wanted = normalize(label);
+  return (email.labels || []).some(existing => normalize(existing) === wanted);
+}
+
+/**
+ * Detects user corrections by comparing what the audit log says we filed
+ * with where recent emails are now, and feeds them back to the classifier.
+ */
+export class FeedbackService {
+  private mailProvider: MailProvider;
+  private classifier: Classifier;
+  private auditLog: AuditLog;
+  private feedbackStore: FeedbackStore;
+
+  constructor(mailProvider: MailProvider, classifier: Classifier, auditLog: AuditLog, feedbackStore: FeedbackStore) {
+    this.mailProvider = mailProvider;
+    this.classifier = classifier;
+    this.auditLog = auditLog;
+    this.feedbackStore = feedbackStore;
+  }
+
+  /**
+   * Check the newest options.batchSize INBOX emails: labeled ones must still
+   * carry the label, and moved or copied ones must still be in the folder
+   */
+  async detectCorrections(options: FeedbackOptions): Promise<FeedbackSummary> {
+    const emails = await this.mailProvider.fetchEmails({
+      maxAgeDays: options.maxAgeDays,
+      batchSize: options.batchSize,
+      includeRead: true,
+      includeUnread: true,
+      includeProcessed: true
+    });
+    const newExamples: TrainingExample[] = [];
+    const summary: FeedbackSummary = { checked: emails.length, falsePositives: 0, falseNegatives: 0 };
+    const filed = new Map<string, AuditEntry>();
+    for (const email of emails) {
+      const entry = this.auditLog.latestFiling(email, options.advertisingLabel);
+      if (entry) filed.set(email.id, entry);
+    }
+
+    // False positives: we filed the email, the user has since taken it out again
+    for (const email of emails) {
+      const entry = filed.get(email.id);
+      if (!entry || await this.isStillFiled(email, entry, options.advertisingLabel)) continue;
+
+      const category = this.correctedCategory(email);
+      if (this.feedbackStore.addCorrection(email, false, 'false_positive', category)) {
+        console.log(`False positive (${entry.action === 'label' ? 'label removed' : `taken out of ${options.advertisingLabel}`} by user): ${email.subject}${category ? ` (${category})` : ''}`);
+        newExamples.push({ subject: email.subject, sender: email.sender, body: email.body, isAdvertising: false, category });
+        summary.falsePositives++;
+      }
+    }
+
+    // False negatives: the user added the label to an email we classified as not advertising
+    const manuallyLabeled = emails.filter(email =>
+      hasLabel(email, options.advertisingLabel) && !filed.has(email.id)
+    );
+    const classifications = this.auditLog.latestClassifications(manuallyLabeled.map(email => email.id));
+    for (const email of manuallyLabeled) {
+      if (!classifications.has(email.id)) continue;
+
+      if (this.feedbackStore.addCorrection(email, true, 'false_negative')) {
+        console.log(`False negative (label added by user): ${email.subject}`);
+        newExamples.push({ subject: email.subject, sender: email.sender, body: email.body, isAdvertising: true });
+        summary.falseNegatives++;
+      }
+    }
+
+    if (newExamples.length > 0) {
+      await this.classifier.train(newExamples);
+      console.log(`Trained ${this.classifier.modelName} on ${newExamples.length} new corrections`);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Category of an email taken out of advertising: the one the user chose when
+   * changing it from the dashboard, if they did
+   * @returns undefined for the default category
+   */
+  private correctedCategory(email: Email): string | undefined {
+    const category = email.messageId ? this.auditLog.latestCategory(email.messageId) : null;
+    return category && category !== ADVERTISING_CATEGORY ? category : undefined;
+  }
+
+  /**
+   * Whether an email is still where we filed it: labeled emails must carry the
+   * label, moved emails and copies must still be in the folder
+   */
+  private async isStillFiled(email: Email, entry: AuditEntry, label: string): Promise<boolean> {
+    if (entry.action === 'label') {
+      return hasLabel(email, label);
+    }
+    if (!email.messageId) {
+      return true;  // Can't be looked up in the folder
+    }
+    return (await this.mailProvider.findByMessageId(email.messageId, label)).length > 0;
+  }
+}
@@ -0,0 +1,886 @@
+import path from 'path';
+import { MailProvider, Email, EmailRef, BatchFailures, PROCESSED_LABEL } from '../email/MailProvider';
+import { Classifier, ClassificationResult } from '../classifier/Classifier';
+import { BudgetExceededError } from '../classifier/ClassificationScheduler';
+import { SenderRules } from '../rules/SenderRules';
+import { RetentionPolicy, RetentionRule, describeRetentionRule } from '../retention/RetentionPolicy';
+import { scoreHeaders } from '../classifier/headerSignals';
+import { Category, loadTaxonomy, findCategory, ADVERTISING_CATEGORY, DEFAULT_CATEGORY } from '../classifier/taxonomy';
+import { AuditLog, AuditEntry } from '../storage/AuditLog';
+import { FeedbackStore } from '../storage/FeedbackStore';
+import { FeedbackService, FeedbackSummary } from '../feedback/FeedbackService';
+import { UnsubscribeService } from '../unsubscribe/UnsubscribeService';
+import { UnsubscribeStore } from '../storage/UnsubscribeStore';
+import { createMailTransport } from '../unsubscribe/MailTransport';
+import { BackupArchive } from '../backup/BackupArchive';
+import { DeletionQueue, QueuedAction, QueuedDeletion } from '../storage/DeletionQueue';
+import { BackupStore } from '../storage/BackupStore';
+import { openDatabase, databasePath } from '../storage/Database';
+import { config, EnvConfig } from '../../config/env';
+
+export const ADVERTISING_LABEL = 'Advertising';
+export { PROCESSED_LABEL };
+
+export interface ProcessorOptions {
+  advertisingLabel: string;
+  reviewLabel: string;           // Low-confidence advertising, never deleted automatically
+  processedLabel: string;
+  actionMode: EnvConfig['actionMode'];  // How Advertising/Review mail is filed: label, move, or copy+flag
+  confidenceThreshold: number;
+  headerScoreThreshold: number;  // Bulk mail header score that marks advertising without the classifier
+  batchSize: number;
+  feedbackBatchSize: number;     // Emails checked for user corrections per run
+  maxEmailAgeDays: number;
+  categories: Category[];        // Taxonomy with the label and default retention of each category
+  unsubscribe: boolean;          // Ask senders of confidently classified advertising to stop
+  backup: boolean;               // Keep a raw copy of emails before deleting or trashing them
+  deletionDelayDays: number;     // Days a queued deletion waits for review before it goes ahead anyway
+  dryRun: boolean;               // If true, don't actually delete emails
+}
+
+export interface ClassifySummary {
+  processed: number;
+  skipped: number;
+  ruleMatched: number;
+  headerMatched: number;
+  advertising: number;
+  review: number;
+  categorized: Record<string, number>;  // Emails filed under each category's label
+  unsubscribed: number;
+  markedProcessed: number;
+  failed: number;       // Emails the classifier failed on, left unprocessed for the next run
+  cacheHits: number;    // Classifier results reused from the classification cache
+  cacheMisses: number;  // Emails sent to a classifier that has a cache
+}
+
+export interface CleanupSummary {
+  found: number;
+  actioned: number;  // Emails a label, archive or move rule fired for
+  queued: number;    // Emails a delete or trash rule fired for, added to the deletion queue
+  deleted: number;   // Queued emails that were approved or waited long enough, and were removed
+  skipped: number;
+}
+
+/**
+ * Where the classification pass files an email, decided before the mailbox is changed
+ */
+interface FilingDecision {
+  email: Email;
+  category: Category;
+  label: string | null;  // The category's label or the review label; null leaves the email in place
+  review: boolean;       // Filed for review because the confidence was too low
+}
+
+/**
+ * Failures for a batch operation that failed as a whole, e.g. because the folder could not be opened
+ */
+function failAll(emailIds: string[], err: unknown): BatchFailures {
+  const error = err instanceof Error ? err : new Error(String(err));
+  return new Map(emailIds.map(id => [id, error]));
+}
+
+function queuedEmail(item: QueuedDeletion): EmailRef {
+  return { id: item.uid, messageId: item.messageId ?? undefined, sender: item.sender, subject: item.subject };
+}
+
+export function processorOptionsFromConfig(env: EnvConfig = config): ProcessorOptions {
+  const categories = loadTaxonomy(path.join(env.dataDir, 'categories.json'), env);
+  return {
+    advertisingLabel: findCategory(categories, ADVERTISING_CATEGORY).label || ADVERTISING_LABEL,
+    reviewLabel: env.reviewLabel,
+    processedLabel: PROCESSED_LABEL,
+    actionMode: env.actionMode,
+    confidenceThreshold: env.classificationConfidenceThreshold,
+    headerScoreThreshold: env.headerScoreThreshold,
+    batchSize: env.batchSize,
+    feedbackBatchSize: 500,
+    maxEmailAgeDays: 365,  // Look back up to a year
+    categories,
+    unsubscribe: env.unsubscribe,
+    backup: env.backupBeforeDelete,
+    deletionDelayDays: env.deletionDelayDays,
+    dryRun: env.dryRun
+  };
+}
+
+/**
+ * The feedback, classification and cleanup passes, shared by the
+ * one-shot runner and the daemon. Passes stop between emails once
+ * the given signal is aborted.
+ */
+export class EmailProcessor {
+  private mailProvider: MailProvider;
+  private classifier: Classifier;
+  private options: ProcessorOptions;
+  private auditLog: AuditLog;
+  private senderRules: SenderRules;
+  private feedbackService: FeedbackService;
+  private unsubscribeService: UnsubscribeService | null;
+  private retentionPolicy: RetentionPolicy;
+  private backupArchive: BackupArchive | null;
+  private deletionQueue: DeletionQueue;
+  private hardDelete: boolean;
+  private otherBulkCategories: boolean;
+
+  /**
+   * @param env The account being processed; its data directory holds the local
+   *            database, rules.json and retention.json
+   */
+  constructor(mailProvider: MailProvider, classifier: Classifier, options: ProcessorOptions = processorOptionsFromConfig(), env: EnvConfig = config) {
+    const db = openDatabase(databasePath(env.dataDir));
+    this.mailProvider = mailProvider;
+    this.classifier = classifier;
+    this.options = options;
+    this.auditLog = new AuditLog(db);
+    this.senderRules = new SenderRules(path.join(env.dataDir, 'rules.json'));
+    this.retentionPolicy = new RetentionPolicy(options.categories, path.join(env.dataDir, 'retention.json'));
+    this.feedbackService = new FeedbackService(mailProvider, classifier, this.auditLog, new FeedbackStore(db));
+    this.unsubscribeService = options.unsubscribe
+      ? new UnsubscribeService(new UnsubscribeStore(db), createMailTransport(env), options.dryRun)
+      : null;
+    this.backupArchive = options.backup
+      ? new BackupArchive(new BackupStore(db), path.join(env.dataDir, 'backups'), env.maxBackupMb)
+      : null;
+    this.deletionQueue = new DeletionQueue(db);
+    this.hardDelete = env.hardDelete;
+    // Newsletters, receipts and notifications are bulk mail too: with categories like those
+    // in the taxonomy, only marketing campaign headers tell an email is advertising
+    this.otherBulkCategories = options.categories.some(category => category.name !== ADVERTISING_CATEGORY && category.name !== DEFAULT_CATEGORY);
+  }
+
+  logConfiguration(): void {
+    const { options } = this;
+    console.log('Configuration:');
+    console.log(`- Classifier: ${this.classifier.modelName}`);
+    console.log(`- Sender rules: ${this.senderRules.count} (${this.senderRules.path})`);
+    console.log(`- Action mode: ${options.actionMode}`);
+    console.log(`- Header score threshold: ${options.headerScoreThreshold} (at or above this, ${this.otherBulkCategories ? 'campaigns sent through an ESP with one-click unsubscribe are' : 'bulk mail is'} marked advertising without the classifier)`);
+    console.log(`- Confidence threshold: ${options.confidenceThreshold} (below this, categories that get deleted go to "${options.reviewLabel}")`);
+    console.log(`- Batch size: ${options.batchSize} emails`);
+    console.log(`- Max email age: ${options.maxEmailAgeDays} days`);
+    console.log(`- Unsubscribe from advertising senders: ${options.unsubscribe ? 'yes' : 'no'}`);
+    console.log('- Categories:');
+    for (const category of options.categories) {
+      console.log(`  - ${category.name}: ${category.label ? `"${category.label}"` : 'left in INBOX'}`);
+    }
+    console.log(`- Retention rules (${this.retentionPolicy.source}):`);
+    for (const rule of this.retentionPolicy.ruleList) {
+      console.log(`  - ${describeRetentionRule(rule)}`);
+    }
+    console.log(`- Deleted emails: ${this.hardDelete ? 'expunged permanently (HARD_DELETE)' : 'moved to Trash'}`);
+    console.log(`- Deletion delay: ${options.deletionDelayDays} days (unless approved sooner with the queue command)`);
+    console.log(`- Backups before deletion: ${this.backupArchive ? this.backupArchive.path : 'off'}`);
+    console.log(`- Dry run mode: ${options.dryRun ? 'ON (no emails will be deleted)' : 'OFF (emails will be deleted)'}\n`);
+  }
+
+  /**
+   * Ensure all labels used by the passes exist
+   */
+  async prepare(): Promise<void> {
+    console.log(`\nEnsuring labels exist...`);
+    const categoryLabels = this.options.categories
+      .map(category => category.label)
+      .filter((label): label is string => !!label);
+    for (const label of new Set([this.options.advertisingLabel, ...categoryLabels])) {
+      await this.mailProvider.ensureFolderExists(label);
+    }
+    await this.mailProvider.ensureFolderExists(this.options.reviewLabel);
+    await this.mailProvider.ensureFolderExists(this.options.processedLabel);
+  }
+
+  /**
+   * FEEDBACK PASS: Learn from labels the user changed since the last run.
+   * Failures are logged and swallowed; corrections are an improvement, not a requirement.
+   */
+  async feedbackPass(): Promise<FeedbackSummary | null> {
+    console.log('\n=== FEEDBACK PASS: Checking for user corrections ===');
+    try {
+      const feedback = await this.feedbackService.detectCorrections({
+        advertisingLabel: this.options.advertisingLabel,
+        maxAgeDays: this.options.maxEmailAgeDays,
+        batchSize: this.options.feedbackBatchSize
+      });
+      console.log('\nFeedback Pass Summary:');
+      console.log(`- Checked: ${feedback.checked} emails`);
+      console.log(`- False positives (Advertising label removed): ${feedback.falsePositives}`);
+      console.log(`- False negatives (Advertising label added): ${feedback.falseNegatives}`);
+      return feedback;
+    } catch (err) {
+      console.error('Failed to check for user corrections:', err);
+      return null;
+    }
+  }
+
+  /**
+   * FIRST PASS: Classify unprocessed INBOX emails, batch by batch, resuming
+   * after the last UID handled by the previous run. Each batch is classified
+   * first and then labeled in bulk. Emails that could not be classified are
+   * left unprocessed, and the next run resumes no later than the first of them.
+   */
+  async classifyPass(signal?: AbortSignal): Promise<ClassifySummary> {
+    console.log('\n=== FIRST PASS: Processing INBOX emails ===');
+    this.classifier.startRun();
+    this.reloadSenderRules();
+    const unhandled = new Set<string>();
+    const batches = this.mailProvider.iterateEmails({
+      maxAgeDays: this.options.maxEmailAgeDays,
+      batchSize: this.options.batchSize,
+      includeRead: true,
+      includeUnread: true,
+      incremental: true,
+      unhandled
+    });
+
+    const summary: ClassifySummary = { processed: 0, skipped: 0, ruleMatched: 0, headerMatched: 0, advertising: 0, review: 0, categorized: {}, unsubscribed: 0, markedProcessed: 0, failed: 0, cacheHits: 0, cacheMisses: 0 };
+
+    for await (const inboxEmails of batches) {
+      const { decisions, failures } = await this.decideBatch(inboxEmails, summary, signal);
+      // Emails already classified are filed even when stopping early
+      const processed = new Set((await this.applyDecisions(decisions, summary)).map(email => email.id));
+      for (const { email } of decisions) {
+        if (!processed.has(email.id)) unhandled.add(email.id);
+      }
+      for (const emailId of failures.keys()) {
+        unhandled.add(emailId);
+      }
+
+      if ([...failures.values()].some(error => error instanceof BudgetExceededError)) {
+        console.log('\nThe token budget for this run is used up, leaving the remaining emails for the next run');
+        break;
+      }
+      if (signal?.aborted) {
+        console.log('\nStop requested, ending classification pass early');
+        break;
+      }
+    }
+
+    const usage = this.classifier.usage;
+    console.log('\nFirst Pass Summary:');
+    console.log(`- Processed: ${summary.processed} emails`);
+    console.log(`- Skipped: ${summary.skipped} already processed emails`);
+    console.log(`- Decided by sender rules: ${summary.ruleMatched} emails`);
+    console.log(`- Decided by bulk mail headers: ${summary.headerMatched} emails`);
+    console.log(`- Marked as Advertising: ${summary.advertising} emails`);
+    for (const [name, count] of Object.entries(summary.categorized)) {
+      if (name !== ADVERTISING_CATEGORY) console.log(`- Filed as ${name}: ${count} emails`);
+    }
+    console.log(`- Marked for ${this.options.reviewLabel}: ${summary.review} emails (below confidence threshold)`);
+    if (this.unsubscribeService) {
+      console.log(`- ${this.options.dryRun ? 'Would unsubscribe' : 'Unsubscribed'}: ${summary.unsubscribed} senders`);
+    }
+    console.log(`- Marked as Processed: ${summary.markedProcessed} emails`);
+    console.log(`- Not classified: ${summary.failed} emails (left for the next run)`);
+    if (summary.cacheHits + summary.cacheMisses > 0) {
+      console.log(`- Classification cache: ${summary.cacheHits} hits, ${summary.cacheMisses} misses`);
+    }
+    if (usage.requests > 0) {
+      console.log(`- Classifier API: ${usage.requests} requests (${usage.retries} retries), ${usage.tokens} tokens`);
+    }
+    return summary;
+  }
+
+  /**
+   * Classify newly arrived emails pushed by the new mail subscription,
+   * skipping any that a classification pass already handled. Emails that
+   * could not be classified are left for the next classification pass.
+   */
+  async newMailPass(emails: Email[], signal?: AbortSignal): Promise<number> {
+    const processedLabel = this.options.processedLabel.toLowerCase();
+    const unprocessed = emails.filter(email => !(email.labels || []).some(label => label.toLowerCase() === processedLabel));
+    this.reloadSenderRules();
+    const { decisions } = await this.decideBatch(unprocessed, undefined, signal);
+    await this.applyDecisions(decisions);
+    return decisions.length;
+  }
+
+  /**
+   * Classify a batch of emails and decide where to file them, without changing
+   * the mailbox yet. Sender rules and bulk mail headers are checked first; the
+   * remaining emails go to the classifier together.
+   * @returns Decisions for the classified emails, and the errors for those that could not be classified
+   */
+  private async decideBatch(
+    emails: Email[],
+    summary?: ClassifySummary,
+    signal?: AbortSignal
+  ): Promise<{ decisions: FilingDecision[]; failures: Map<string, Error> }> {
+    const decisions: FilingDecision[] = [];
+    const toClassify: Email[] = [];
+    for (const email of emails) {
+      if (signal?.aborted) break;
+      const result = this.decideWithoutClassifier(email, summary);
+      if (result) {
+        decisions.push(this.fileDecision(email, result));
+      } else {
+        toClassify.push(email);
+      }
+    }
+    if (toClassify.length === 0) {
+      return { decisions, failures: new Map() };
+    }
+
+    console.log(`\nClassifying ${toClassify.length} emails with ${this.classifier.modelName}...`);
+    const { results, failures } = await this.classifier.classifyBatch(toClassify);
+    for (const email of toClassify) {
+      const result = results.get(email.id);
+      if (!result) {
+        const error = failures.get(email.id);
+        console.error(`\nFailed to classify ${email.subject}, leaving it for the next run: ${error?.message}`);
+        if (summary) summary.failed++;
+        continue;
+      }
+
+      console.log(`\nClassified email: ${email.subject}`);
+      console.log(`Classification result: ${result.category} (${result.confidence * 100}% confidence)${result.cached ? ' from cache' : ''}`);
+      this.auditLog.recordClassification(email, result, this.classifier.modelName);
+      if (summary && result.cached) summary.cacheHits++;
+      if (summary && result.cached === false) summary.cacheMisses++;
+      decisions.push(this.fileDecision(email, result));
+    }
+    return { decisions, failures };
+  }
+
+  /**
+   * Pick up changes to rules.json made since the last pass
+   */
+  private reloadSenderRules(): void {
+    if (this.senderRules.reload()) {
+      console.log(`Reloaded sender rules: ${this.senderRules.count} (${this.senderRules.path})`);
+    }
+  }
+
+  /**
+   * Sender rules take precedence over the classifier, then obvious bulk mail headers.
+   * When the taxonomy has other bulk mail categories, only marketing campaign headers count.
+   * @returns The result, or null if the email needs the classifier
+   */
+  private decideWithoutClassifier(email: Email, summary?: ClassifySummary): ClassificationResult | null {
+    console.log(`\nChecking email: ${email.subject}`);
+
+    const decision = this.senderRules.evaluate(email);
+    if (decision) {
+      const result: ClassificationResult = {
+        category: decision.list === 'block' ? ADVERTISING_CATEGORY : DEFAULT_CATEGORY,
+        isAdvertising: decision.list === 'block',
+        confidence: 1,
+        reason: decision.description
+      };
+      console.log(decision.description);
+      this.auditLog.recordClassification(email, result, 'sender-rules');
+      if (summary) summary.ruleMatched++;
+      return result;
+    }
+
+    const headerScore = scoreHeaders(email);
+    if (headerScore.score >= this.options.headerScoreThreshold && (headerScore.campaign || !this.otherBulkCategories)) {
+      const result: ClassificationResult = {
+        category: ADVERTISING_CATEGORY,
+        isAdvertising: true,
+        confidence: Math.min(headerScore.score, 1),
+        reason: `Bulk mail headers: ${headerScore.signals.join(', ')}`
+      };
+      console.log(`${result.reason} (score ${headerScore.score})`);
+      this.auditLog.recordClassification(email, result, 'header-heuristics');
+      if (summary) summary.headerMatched++;
+      return result;
+    }
+
+    return null;
+  }
+
+  /**
+   * Where to file a classified email: its category's label, or the review label when not confident enough
+   */
+  private fileDecision(email: Email, result: ClassificationResult): FilingDecision {
+    const { reviewLabel, confidenceThreshold } = this.options;
+    const category = findCategory(this.options.categories, result.category);
+    if (category.label && category.retentionDays !== null && result.confidence < confidenceThreshold) {
+      // Not confident enough to make it eligible for deletion; leave it for a human
+      console.log(`Filing under ${reviewLabel} (${category.name}, confidence below ${confidenceThreshold})`);
+      return { email, category, label: reviewLabel, review: true };
+    }
+    if (category.label) {
+      console.log(`Filing under ${category.label}`);
+    }
+    return { email, category, label: category.label, review: false };
+  }
+
+  /**
+   * Apply the decisions for a batch of emails in bulk: mark them all Processed,
+   * then file the emails sharing a label with one batch operation per label.
+   * Failures are logged and audited per email.
+   * @returns The emails marked Processed
+   */
+  private async applyDecisions(decisions: FilingDecision[], summary?: ClassifySummary): Promise<Email[]> {
+    if (decisions.length === 0) return [];
+    const { processedLabel } = this.options;
+    console.log(`\nApplying labels to ${decisions.length} emails...`);
+
+    // Mark Processed first: in move mode the emails leave INBOX and their UIDs with them
+    const processed = await this.applyLabels(decisions.map(decision => decision.email), processedLabel);
+    if (summary) summary.markedProcessed += processed.length;
+
+    const byLabel = new Map<string, FilingDecision[]>();
+    for (const decision of decisions) {
+      if (decision.label) byLabel.set(decision.label, [...(byLabel.get(decision.label) || []), decision]);
+    }
+    const unfiled = new Set<string>();
+    for (const [label, group] of byLabel) {
+      const filed = new Set((await this.fileEmails(group.map(decision => decision.email), label)).map(email => email.id));
+      group.filter(({ email }) => !filed.has(email.id)).forEach(({ email }) => unfiled.add(email.id));
+      if (!summary) continue;
+      for (const { email, category, review } of group) {
+        if (!filed.has(email.id)) continue;
+        if (review) {
+          summary.review++;
+          continue;
+        }
+        summary.categorized[category.name] = (summary.categorized[category.name] || 0) + 1;
+        if (category.name === ADVERTISING_CATEGORY) summary.advertising++;
+      }
+    }
+
+    // Emails that could not be filed are classified again next run; unsubscribe once they are filed
+    for (const { email, category, review } of decisions) {
+      if (review || category.name !== ADVERTISING_CATEGORY || unfiled.has(email.id)) continue;
+      if (await this.unsubscribeFrom(email) && summary) summary.unsubscribed++;
+    }
+
+    if (summary) summary.processed += decisions.length;
+    return processed;
+  }
+
+  /**
+   * Change the category of a classified email, e.g. from the dashboard: take it
+   * out of its old category's label (or folder) and file it under the new one.
+   * The feedback pass then picks the change up as a correction.
+   * @param entry The classification to overrule
+   * @param categoryName The category the email really belongs to
+   */
+  async reclassify(entry: AuditEntry, categoryName: string): Promise<void> {
+    const { categories, reviewLabel, actionMode } = this.options;
+    const from = findCategory(categories, entry.category ?? (entry.isAdvertising ? ADVERTISING_CATEGORY : DEFAULT_CATEGORY));
+    const to = findCategory(categories, categoryName);
+    const email: EmailRef = { id: entry.uid, messageId: entry.messageId ?? undefined, sender: entry.sender, subject: entry.subject };
+    const oldLabels = [...new Set([from.label, reviewLabel])]
+      .filter((label): label is string => !!label && label !== to.label);
+    console.log(`\nReclassifying ${email.subject}: ${from.name} -> ${to.name}`);
+
+    // Without Gmail labels, move and copy+flag put the email (or a copy) in the category's folder
+    if (!this.mailProvider.hasLabels && actionMode !== 'label') {
+      if (!email.messageId) {
+        throw new Error('The email has no Message-ID, so it cannot be found in its folder');
+      }
+      const target = to.label || entry.folder;
+      for (const folder of oldLabels) {
+        const uids = await this.mailProvider.findByMessageId(email.messageId, folder);
+        for (const uid of uids) {
+          const filed: EmailRef = { ...email, id: uid };
+          if (actionMode === 'copy+flag' && !to.label) {
+            await this.mailProvider.trashEmail(uid, folder);
+            this.auditLog.recordAction(filed, 'trash', folder, { folder, reason: `Reclassified as ${to.name}` });
+          } else {
+            await this.mailProvider.moveEmail(uid, target, folder);
+            this.auditLog.recordAction(filed, 'move', target, { folder, reason: `Reclassified as ${to.name}` });
+          }
+        }
+      }
+    }
+
+    // The email itself (label mode, Gmail) or the original (copy+flag) carries the labels
+    if (this.mailProvider.hasLabels || actionMode !== 'move') {
+      for (const label of oldLabels) {
+        await this.mailProvider.removeLabel(email.id, label, email.messageId, entry.folder);
+      }
+      if (to.label) {
+        // Not recorded as our own label action, so the feedback pass sees a label the user added
+        await this.mailProvider.addLabel(email.id, to.label, email.messageId, entry.folder);
+      }
+    }
+
+    this.auditLog.recordClassification(email, {
+      category: to.name,
+      isAdvertising: to.name === ADVERTISING_CATEGORY,
+      confidence: 1,
+      reason: `Changed from ${from.name} by the user`
+    }, 'user', entry.folder);
+  }
+
+  /**
+   * File emails under a label according to the action mode:
+   * - label: add the label (IMAP keyword or local label on generic IMAP)
+   * - move: move the emails into the folder
+   * - copy+flag: copy the emails into the folder and label the originals
+   * @returns The emails that were filed
+   */
+  private async fileEmails(emails: Email[], label: string): Promise<Email[]> {
+    const ids = emails.map(email => email.id);
+    switch (this.options.actionMode) {
+      case 'move':
+        return this.applyBatch(emails, 'move', label, () => this.mailProvider.moveEmails(ids, label));
+      case 'copy+flag': {
+        const copied = await this.applyBatch(emails, 'copy', label, () => this.mailProvider.copyEmails(ids, label));
+        return this.applyLabels(copied, label);
+      }
+      default:
+        return this.applyLabels(emails, label);
+    }
+  }
+
+  private applyLabels(emails: Email[], label: string): Promise<Email[]> {
+    return this.applyBatch(emails, 'label', label, () => this.mailProvider.addLabels(emails, label));
+  }
+
+  /**
+   * Run a batch mailbox action, then log and audit its outcome for each email
+   * @returns The emails the action succeeded for
+   */
+  private async applyBatch(
+    emails: Email[],
+    action: 'label' | 'move' | 'copy',
+    target: string,
+    run: () => Promise<BatchFailures>
+  ): Promise<Email[]> {
+    if (emails.length === 0) return [];
+
+    let failures: BatchFailures;
+    try {
+      failures = await run();
+    } catch (err) {
+      // E.g. the folder could not be opened, so none of the emails were changed
+      failures = failAll(emails.map(email => email.id), err);
+    }
+
+    const succeeded = emails.filter(email => !failures.has(email.id));
+    console.log(`${action === 'label' ? `${target} label added to` : `${action === 'move' ? 'Moved' : 'Copied'} to ${target}:`} ${succeeded.length} of ${emails.length} emails`);
+    for (const email of emails) {
+      const error = failures.get(email.id);
+      if (error) {
+        console.error(`Failed to ${action === 'label' ? `add ${target} label` : `${action} email to ${target}`} (UID ${email.id}): ${email.subject}: ${error.message}`);
+      }
+      this.auditLog.recordAction(email, action, target, error ? { error: String(error) } : {});
+    }
+    return succeeded;
+  }
+
+  /**
+   * Send an unsubscribe request to the sender, at most once per sender domain
+   * @returns true if a request was sent (or would have been, in dry-run mode)
+   */
+  private async unsubscribeFrom(email: Email): Promise<boolean> {
+    if (!this.unsubscribeService) return false;
+    try {
+      const result = await this.unsubscribeService.unsubscribe(email);
+      console.log(`Unsubscribe: ${result.reason}${result.target ? ` (${result.method} ${result.target})` : ''}`);
+      if (result.status === 'skipped') return false;
+
+      const error = result.status === 'failed' ? result.reason : undefined;
+      this.auditLog.recordAction(email, 'unsubscribe', result.target || '', { dryRun: result.status === 'dry-run', error });
+      return !error;
+    } catch (err) {
+      console.error(`Failed to unsubscribe: ${email.subject}`, err);
+      this.auditLog.recordAction(email, 'unsubscribe', '', { error: String(err) });
+      return false;
+    }
+  }
+
+  /**
+   * SECOND PASS: Apply the retention policy to every folder it has rules for
+   */
+  async cleanupPass(signal?: AbortSignal): Promise<CleanupSummary> {
+    const { dryRun } = this.options;
+    const summary: CleanupSummary = { found: 0, actioned: 0, queued: 0, deleted: 0, skipped: 0 };
+    if (dryRun) {
+      console.log('\nDRY RUN MODE: No emails will be changed');
+    }
+    this.reloadSenderRules();
+
+    for (const folder of this.retentionPolicy.folders()) {
+      if (signal?.aborted) break;
+      await this.cleanupFolder(folder, summary, signal);
+    }
+    if (!signal?.aborted) {
+      await this.processDeletionQueue(summary, signal);
+    }
+
+    console.log('\nSecond Pass Summary:');
+    console.log(`- Total emails checked: ${summary.found}`);
+    console.log(`- ${dryRun ? 'Would apply' : 'Applied'} retention rules to: ${summary.actioned} emails`);
+    console.log(`- ${dryRun ? 'Would queue' : 'Queued'} for deletion: ${summary.queued} emails (review with: npm run cli -- queue list)`);
+    console.log(`- ${dryRun ? 'Would delete' : 'Deleted'} from the queue: ${summary.deleted} emails`);
+    console.log(`- Skipped: ${summary.skipped} emails (no rule fired, allowlisted or under review)`);
+    if (dryRun) {
+      console.log('\nDRY RUN MODE: No emails were actually changed');
+    }
+    return summary;
+  }
+
+  private async cleanupFolder(folder: string, summary: CleanupSummary, signal?: AbortSignal): Promise<void> {
+    console.log(`\n=== SECOND PASS: Checking ${folder} folder ===`);
+
+    // Only fetch emails old enough for at least one rule, however old they are
+    const batches = this.mailProvider.iterateEmails({
+      maxAgeDays: 0,
+      minAgeDays: this.retentionPolicy.minimumAge(folder),
+      batchSize: this.options.batchSize,
+      includeRead: true,
+      includeUnread: true,
+      includeProcessed: true  // Retention applies to processed emails too
+    }, folder);
+
+    for await (const emails of batches) {
+      summary.found += emails.length;
+      for (const email of emails) {
+        if (signal?.aborted) {
+          console.log('\nStop requested, ending cleanup pass early');
+          return;
+        }
+        await this.cleanupEmail(email, folder, summary);
+      }
+    }
+  }
+
+  /**
+   * Category of an email in a folder: its latest classification, or the category filed under the folder
+   */
+  private categoryOf(email: Email, folder: string): string | null {
+    const classified = email.messageId ? this.auditLog.latestCategory(email.messageId) : null;
+    return classified ?? this.options.categories.find(category => category.label === folder)?.name ?? null;
+  }
+
+  private async cleanupEmail(email: Email, folder: string, summary: CleanupSummary): Promise<void> {
+    const { dryRun, reviewLabel } = this.options;
+
+    // Review mail keeps its classified category in the audit log, but is only ever handled by a human
+    const review = reviewLabel.toLowerCase();
+    if (folder.toLowerCase() === review || (email.labels || []).some(label => label.toLowerCase() === review)) {
+      summary.skipped++;
+      return;
+    }
+
+    const decision = this.retentionPolicy.evaluate(email, { folder, category: this.categoryOf(email, folder) });
+    if (!decision) {
+      summary.skipped++;
+      return;
+    }
+
+    const allowed = this.senderRules.evaluate(email);
+    if (allowed?.list === 'allow') {
+      console.log(`\nSkipping allowlisted email: ${email.subject}`);
+      console.log(`- ${allowed.description}`);
+      summary.skipped++;
+      return;
+    }
+
+    const { rule } = decision;
+    if (rule.action === 'delete' || rule.action === 'trash') {
+      this.queueDeletion(email, folder, rule.action, decision.description, summary);
+      return;
+    }
+
+    const target = rule.target || folder;
+    console.log(`\n${dryRun ? 'Would apply' : 'Applying'} ${rule.action} to: ${email.subject}`);
+    console.log(`- Age: ${email.ageInDays} days`);
+    console.log(`- ${decision.description}`);
+    try {
+      if (!dryRun) {
+        await this.applyRetention(email, folder, rule);
+        console.log(`${rule.action} successful`);
+      } else {
+        console.log(`(Dry run - no ${rule.action} performed)`);
+      }
+      this.auditLog.recordAction(email, rule.action, target, { folder, dryRun, reason: decision.description });
+      summary.actioned++;
+    } catch (err) {
+      console.error(`Failed to ${rule.action} email: ${email.subject}`, err);
+      this.auditLog.recordAction(email, rule.action, target, { folder, dryRun, reason: decision.description, error: String(err) });
+    }
+  }
+
+  /**
+   * Add an email a delete or trash rule fired for to the deletion queue
+   */
+  private queueDeletion(email: Email, folder: string, action: QueuedAction, reason: string, summary: CleanupSummary): void {
+    if (this.options.dryRun) {
+      console.log(`\nWould queue for ${action}: ${email.subject}`);
+      console.log(`- ${reason}`);
+      this.auditLog.recordAction(email, action, folder, { folder, dryRun: true, reason });
+      summary.queued++;
+      return;
+    }
+
+    const item = this.deletionQueue.enqueue(email, folder, action, reason);
+    if (item) {
+      console.log(`\nQueued for ${action} as #${item.id}: ${email.subject}`);
+      console.log(`- Age: ${email.ageInDays} days`);
+      console.log(`- ${reason}`);
+      summary.queued++;
+    }
+  }
+
+  /**
+   * Remove queued emails that were approved, or left unreviewed for deletionDelayDays.
+   * Emails queued for the same action in the same folder are removed together.
+   */
+  private async processDeletionQueue(summary: CleanupSummary, signal?: AbortSignal): Promise<void> {
+    const due = this.deletionQueue.due(this.options.deletionDelayDays);
+    if (due.length === 0) return;
+    // Senders allowlisted while the cleanup pass ran must still be spared
+    this.reloadSenderRules();
+
+    console.log(`\n=== SECOND PASS: ${due.length} queued deletions due ===`);
+    const groups = new Map<string, QueuedDeletion[]>();
+    for (const item of due) {
+      const key = `${item.action} ${item.folder}`;
+      groups.set(key, [...(groups.get(key) || []), item]);
+    }
+    for (const items of groups.values()) {
+      if (signal?.aborted) {
+        console.log('\nStop requested, ending cleanup pass early');
+        return;
+      }
+      await this.deleteQueued(items, summary);
+    }
+  }
+
+  /**
+   * Remove queued emails sharing a folder and action: look each one up and
+   * back it up, then remove them all with one batch operation
+   */
+  private async deleteQueued(items: QueuedDeletion[], summary: CleanupSummary): Promise<void> {
+    const { dryRun } = this.options;
+    const { folder, action } = items[0];
+    const ready: Array<{ item: QueuedDeletion; reason: string; emails: EmailRef[] }> = [];
+
+    for (const item of items) {
+      const reason = item.status === 'approved'
+        ? `${item.reason} (approved)`
+        : `${item.reason} (not reviewed within ${this.options.deletionDelayDays} days)`;
+      console.log(`\n${dryRun ? 'Would apply' : 'Applying'} ${action} to queued #${item.id}: ${item.subject}`);
+      console.log(`- ${reason}`);
+
+      // The sender may have been allowlisted since the email was queued
+      const allowed = this.senderRules.evaluate(item);
+      if (allowed?.list === 'allow') {
+        console.log(`- ${allowed.description}, not removing it`);
+        if (!dryRun) this.deletionQueue.review(item.id, 'rejected');
+        summary.skipped++;
+        continue;
+      }
+      const queued = queuedEmail(item);
+      if (dryRun) {
+        console.log(`(Dry run - no ${action} performed)`);
+        this.auditLog.recordAction(queued, action, folder, { folder, dryRun, reason });
+        summary.deleted++;
+        continue;
+      }
+
+      try {
+        // Look the email up again, it may have been moved or deleted since it was queued
+        const uids = item.messageId ? await this.mailProvider.findByMessageId(item.messageId, folder) : [item.uid];
+        if (uids.length === 0) {
+          throw new Error(`No longer in ${folder}`);
+        }
+        const emails = uids.map((uid): EmailRef => ({ ...queued, id: uid }));
+        // A failed backup throws, so nothing is removed without a copy
+        for (const email of emails) {
+          await this.backup(email, folder);
+        }
+        ready.push({ item, reason, emails });
+      } catch (err) {
+        console.error(`Failed to ${action} queued email: ${item.subject}`, err);
+        this.deletionQueue.finish(item.id, String(err));
+        this.auditLog.recordAction(queued, action, folder, { folder, reason, error: String(err) });
+      }
+    }
+    if (ready.length === 0) return;
+
+    const uids = ready.flatMap(({ emails }) => emails.map(email => email.id));
+    let failures: BatchFailures;
+    try {
+      failures = await this.removeEmails(uids, folder, action);
+    } catch (err) {
+      failures = failAll(uids, err);
+    }
+    console.log(`\n${action} from ${folder}: ${uids.length - failures.size} of ${uids.length} emails removed`);
+
+    for (const { item, reason, emails } of ready) {
+      const error = emails.map(email => failures.get(email.id)).find(failure => failure);
+      for (const email of emails) {
+        const failure = failures.get(email.id);
+        this.auditLog.recordAction(email, action, folder, { folder, reason, error: failure ? String(failure) : undefined });
+      }
+      if (error) {
+        console.error(`Failed to ${action} queued #${item.id}: ${item.subject}: ${error.message}`);
+        this.deletionQueue.finish(item.id, String(error));
+        continue;
+      }
+      console.log(`${action} successful for queued #${item.id}`);
+      this.deletionQueue.finish(item.id);
+      summary.deleted++;
+
+      if (folder !== 'INBOX' && this.options.actionMode === 'copy+flag') {
+        await this.deleteOriginal(queuedEmail(item));
+      }
+    }
+  }
+
+  private async backup(email: EmailRef, folder: string): Promise<void> {
+    if (!this.backupArchive) return;
+    const message = await this.mailProvider.fetchSource(email.id, folder);
+    const entry = this.backupArchive.save(email, folder, message);
+    console.log(`- Backed up as #${entry.id} (${entry.file})`);
+  }
+
+  private applyRetention(email: Email, folder: string, rule: RetentionRule): Promise<void> {
+    switch (rule.action) {
+      case 'label':
+        return this.mailProvider.addLabel(email.id, rule.target as string, email.messageId, folder);
+      case 'move':
+        return this.mailProvider.moveEmail(email.id, rule.target as string, folder);
+      case 'archive':
+        return this.mailProvider.archiveEmail(email.id, folder);
+      case 'trash':
+      case 'delete':
+        return this.removeEmail(email, folder, rule.action);
+    }
+  }
+
+  private removeEmail(email: EmailRef, folder: string, action: QueuedAction): Promise<void> {
+    return action === 'trash'
+      ? this.mailProvider.trashEmail(email.id, folder)
+      : this.mailProvider.deleteEmail(email.id, folder);
+  }
+
+  private removeEmails(emailIds: string[], folder: string, action: QueuedAction): Promise<BatchFailures> {
+    return action === 'trash'
+      ? this.mailProvider.trashEmails(emailIds, folder)
+      : this.mailProvider.deleteEmails(emailIds, folder);
+  }
+
+  /**
+   * In copy+flag mode the original stays in INBOX; delete it along with the copy
+   */
+  private async deleteOriginal(copy: EmailRef): Promise<void> {
+    const { dryRun } = this.options;
+    if (!copy.messageId) {
+      console.log('- No Message-ID, leaving the INBOX original in place');
+      return;
+    }
+
+    try {
+      const uids = await this.mailProvider.findByMessageId(copy.messageId, 'INBOX');
+      for (const uid of uids) {
+        const original: EmailRef = { ...copy, id: uid };
+        if (!dryRun) {
+          await this.mailProvider.deleteEmail(uid, 'INBOX');
+        }
+        console.log(`- ${dryRun ? 'Would delete' : 'Deleted'} INBOX original (UID ${uid})`);
+        this.auditLog.recordAction(original, 'delete', 'INBOX', { dryRun });
+      }
+    } catch (err) {
+      console.error(`Failed to delete INBOX original: ${copy.subject}`, err);
+      this.auditLog.recordAction(copy, 'delete', 'INBOX', { dryRun, error: String(err) });
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import fs from 'fs';
+import path from 'path';
+import { Email } from '../email/MailProvider';
+import { Category } from '../classifier/taxonomy';
+import { config } from '../../config/env';
+
+export type RetentionAction = 'label' | 'archive' | 'move' | 'trash' | 'delete';
+
+const ACTIONS: RetentionAction[] = ['label', 'archive', 'move', 'trash', 'delete'];
+
+/**
+ * A retention rule. All conditions that are set must match, and the email
+ * must be at least olderThanDays old.
+ */
+export interface RetentionRule {
+  name: string;
+  folder?: string;          // Folder or label the rule applies to (default INBOX)
+  senderPattern?: string;   // Regular expression tested against the full From header
+  category?: string;        // Category the email was classified into
+  read?: boolean;           // true: only read emails, false: only unread emails
+  starred?: boolean;        // true: only starred (\Flagged) emails, false: only unstarred ones
+  olderThanDays: number;
+  action: RetentionAction;
+  target?: string;          // Label to add (label) or folder to move to (move)
+}
+
+export interface PolicyFile {
+  rules: RetentionRule[];
+}
+
+export interface RetentionDecision {
+  rule: RetentionRule;
+  description: string;
+}
+
+/**
+ * Facts about an email that aren't on the Email itself
+ */
+export interface RetentionContext {
+  folder: string;
+  category: string | null;
+}
+
+export function describeRetentionRule(rule: RetentionRule): string {
+  const conditions = [`in ${rule.folder || 'INBOX'}`];
+  if (rule.category) conditions.push(`category ${rule.category}`);
+  if (rule.senderPattern) conditions.push(`sender /${rule.senderPattern}/`);
+  if (rule.read !== undefined) conditions.push(rule.read ? 'read' : 'unread');
+  if (rule.starred !== undefined) conditions.push(rule.starred ? 'starred' : 'not starred');
+  const action = rule.target ? `${rule.action} ${rule.target}` : rule.action;
+  return `"${rule.name}": ${action} after ${rule.olderThanDays} days (${conditions.join(', ')})`;
+}
+
+/**
+ * One delete rule per category with a label and a retention period,
+ * used when there is no policy file
+ */
+export function rulesFromCategories(categories: Category[]): RetentionRule[] {
+  return categories
+    .filter(category => category.label && category.retentionDays !== null)
+    .map(category => ({
+      name: `${category.name} retention`,
+      folder: category.label as string,
+      olderThanDays: category.retentionDays as number,
+      action: 'delete' as RetentionAction
+    }));
+}
+
+/**
+ * Retention rules loaded from retention.json in DATA_DIR. Rules are checked
+ * in order and the first match fires, so list longer retention periods
+ * first for graduated retention (e.g. delete after 90 days, then archive after 30).
+ */
+export class RetentionPolicy {
+  private rules: RetentionRule[];
+  private readonly filePath: string;
+
+  /**
+   * @param categories Taxonomy used for the default rules when the policy file doesn't exist
+   */
+  constructor(categories: Category[], filePath: string = path.join(config.dataDir, 'retention.json')) {
+    this.filePath = filePath;
+    this.rules = fs.existsSync(filePath) ? this.load() : rulesFromCategories(categories);
+  }
+
+  private load(): RetentionRule[] {
+    let parsed: Partial<PolicyFile>;
+    try {
+      parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to parse retention policy "${this.filePath}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const rules = Array.isArray(parsed.rules) ? parsed.rules : [];
+
+    // Fail early on invalid rules rather than mid-run
+    rules.forEach((rule, index) => {
+      const name = rule.name || `rule ${index + 1}`;
+      if (!ACTIONS.includes(rule.action)) {
+        throw new Error(`Retention rule "${name}" has an invalid action: ${rule.action} (expected ${ACTIONS.join(', ')})`);
+      }
+      if (typeof rule.olderThanDays !== 'number' || rule.olderThanDays < 0) {
+        throw new Error(`Retention rule "${name}" needs olderThanDays`);
+      }
+      if ((rule.action === 'label' || rule.action === 'move') && !rule.target) {
+        throw new Error(`Retention rule "${name}" needs a target for the ${rule.action} action`);
+      }
+      if (rule.senderPattern) {
+        try {
+          new RegExp(rule.senderPattern, 'i');
+        } catch (error) {
+          throw new Error(`Invalid sender pattern in retention rule "${name}": ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      rule.name = name;
+    });
+    return rules;
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  /** Where the rules came from, for logging */
+  get source(): string {
+    return fs.existsSync(this.filePath) ? this.filePath : 'category retention periods';
+  }
+
+  get ruleList(): RetentionRule[] {
+    return this.rules;
+  }
+
+  /**
+   * Folders that have at least one rule, in the order rules first mention them
+   */
+  folders(): string[] {
+    return [...new Set(this.rules.map(rule => rule.folder || 'INBOX'))];
+  }
+
+  /**
+   * Youngest age at which any rule for the folder can fire
+   */
+  minimumAge(folder: string): number {
+    const ages = this.rules
+      .filter(rule => (rule.folder || 'INBOX') === folder)
+      .map(rule => rule.olderThanDays);
+    return ages.length > 0 ? Math.min(...ages) : 0;
+  }
+
+  private matches(rule: RetentionRule, email: Email, context: RetentionContext): boolean {
+    if ((rule.folder || 'INBOX') !== context.folder) return false;
+    if (email.ageInDays < rule.olderThanDays) return false;
+    if (rule.category && rule.category !== context.category) return false;
+    if (rule.senderPattern && !new RegExp(rule.senderPattern, 'i').test(email.sender)) return false;
+
+    const flags = email.flags || [];
+    if (rule.read !== undefined && flags.includes('\\Seen') !== rule.read) return false;
+    if (rule.starred !== undefined && flags.includes('\\Flagged') !== rule.starred) return false;
+
+    // Already labeled by an earlier pass; later rules, e.g. a delete after more days, still apply
+    const target = rule.target?.toLowerCase();
+    if (rule.action === 'label' && (email.labels || []).some(label => label.toLowerCase() === target)) return false;
+    return true;
+  }
+
+  /**
+   * Find the first rule that applies to an email, if any
+   */
+  evaluate(email: Email, context: RetentionContext): RetentionDecision | null {
+    const rule = this.rules.find(r => this.matches(r, email, context));
+    return rule ? { rule, description: `Retention rule ${describeRetentionRule(rule)}` } : null;
+  }
+}
@@ -0,0 +1,184 @@
+import fs from 'fs';
+import path from 'path';
+import { Email } from '../email/MailProvider';
+import { config } from '../../config/env';
+import { extractAddress, extractDomain } from '../../utils/address';
+
+/**
+ * A single allow/block rule. All fields that are set must match.
+ */
+export interface SenderRule {
+  address?: string;         // Exact sender address, e.g. "orders@amazon.com"
+  domain?: string;          // Sender domain, also matches subdomains
+  senderPattern?: string;   // Regular expression tested against the full From header
+  subjectPattern?: string;  // Regular expression tested against the subject
+  note?: string;            // Free-form comment, e.g. why the rule exists
+}
+
+export interface RulesFile {
+  allow: SenderRule[];
+  block: SenderRule[];
+}
+
+export type RuleList = 'allow' | 'block';
+
+export interface RuleDecision {
+  list: RuleList;
+  rule: SenderRule;
+  description: string;
+}
+
+export function describeRule(rule: SenderRule): string {
+  const parts: string[] = [];
+  if (rule.address) parts.push(`address ${rule.address}`);
+  if (rule.domain) parts.push(`domain ${rule.domain}`);
+  if (rule.senderPattern) parts.push(`sender /${rule.senderPattern}/`);
+  if (rule.subjectPattern) parts.push(`subject /${rule.subjectPattern}/`);
+  return parts.join(' and ') || 'empty rule';
+}
+
+/**
+ * Sender allowlist/blocklist loaded from rules.json in DATA_DIR.
+ * Rules are checked before classification: allowlisted mail is never
+ * labeled or deleted, blocklisted mail is labeled without calling the classifier.
+ */
+export class SenderRules {
+  private rules: RulesFile;
+  private readonly filePath: string;
+  private loadedMtimeMs: number | null = null;  // Modification time of rules.json when loaded; null if missing
+
+  constructor(filePath: string = path.join(config.dataDir, 'rules.json')) {
+    this.filePath = filePath;
+    this.rules = this.load();
+  }
+
+  /**
+   * Load rules.json again if it changed since it was loaded, e.g. edited by
+   * hand or from the dashboard while the daemon runs
+   * @returns true if the rules were reloaded
+   */
+  reload(): boolean {
+    const mtimeMs = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).mtimeMs : null;
+    if (mtimeMs === this.loadedMtimeMs) {
+      return false;
+    }
+    this.rules = this.load();
+    return true;
+  }
+
+  private load(): RulesFile {
+    if (!fs.existsSync(this.filePath)) {
+      this.loadedMtimeMs = null;
+      return { allow: [], block: [] };
+    }
+    this.loadedMtimeMs = fs.statSync(this.filePath).mtimeMs;
+
+    let parsed: Partial<RulesFile>;
+    try {
+      parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to parse rules file "${this.filePath}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return this.validate(parsed);
+  }
+
+  private validate(parsed: Partial<RulesFile>): RulesFile {
+    const rules: RulesFile = {
+      allow: Array.isArray(parsed.allow) ? parsed.allow : [],
+      block: Array.isArray(parsed.block) ? parsed.block : []
+    };
+
+    // Fail early on invalid regular expressions rather than mid-run
+    for (const rule of [...rules.allow, ...rules.block]) {
+      try {
+        if (rule.senderPattern) new RegExp(rule.senderPattern, 'i');
+        if (rule.subjectPattern) new RegExp(rule.subjectPattern, 'i');
+      } catch (error) {
+        throw new Error(`Invalid pattern in rule "${describeRule(rule)}": ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return rules;
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.rules, null, 2) + '\n');
+    this.loadedMtimeMs = fs.statSync(this.filePath).mtimeMs;
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  /** The current rules, as stored in rules.json */
+  get all(): RulesFile {
+    return this.rules;
+  }
+
+  get count(): number {
+    return this.rules.allow.length + this.rules.block.length;
+  }
+
+  /**
+   * Add a rule and save rules.json, unless an identical rule already exists
+   * @returns false if the rule was already there
+   */
+  addRule(list: RuleList, rule: SenderRule): boolean {
+    if (this.rules[list].some(existing => describeRule(existing) === describeRule(rule))) {
+      return false;
+    }
+    this.rules[list].push(rule);
+    this.save();
+    return true;
+  }
+
+  /**
+   * Replace all rules and save rules.json. Throws without saving if a rule is invalid.
+   */
+  replaceRules(rules: Partial<RulesFile>): void {
+    this.rules = this.validate(rules);
+    this.save();
+  }
+
+  private matches(rule: SenderRule, email: Pick<Email, 'sender' | 'subject'>): boolean {
+    const hasCondition = rule.address || rule.domain || rule.senderPattern || rule.subjectPattern;
+    if (!hasCondition) return false;
+
+    if (rule.address && extractAddress(email.sender) !== rule.address.toLowerCase()) {
+      return false;
+    }
+    if (rule.domain) {
+      const domain = extractDomain(email.sender);
+      const ruleDomain = rule.domain.toLowerCase();
+      if (domain !== ruleDomain && !domain.endsWith(`.${ruleDomain}`)) {
+        return false;
+      }
+    }
+    if (rule.senderPattern && !new RegExp(rule.senderPattern, 'i').test(email.sender)) {
+      return false;
+    }
+    if (rule.subjectPattern && !new RegExp(rule.subjectPattern, 'i').test(email.subject)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Find the rule that applies to an email, if any. Allow rules win over block rules.
+   */
+  evaluate(email: Pick<Email, 'sender' | 'subject'>): RuleDecision | null {
+    for (const list of ['allow', 'block'] as RuleList[]) {
+      const rule = this.rules[list].find(r => this.matches(r, email));
+      if (rule) {
+        return {
+          list,
+          rule,
+          description: `${list === 'allow' ? 'Allowlisted' : 'Blocklisted'} by rule: ${describeRule(rule)}${rule.note ? ` (${rule.note})` : ''}`
+        };
+      }
+    }
+    return null;
+  }
+}
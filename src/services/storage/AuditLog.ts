@@ -0,0 +1,314 @@
+import { Database, openDatabase } from './Database';
+import { EmailRef } from '../email/MailProvider';
+import { ClassificationResult } from '../classifier/Classifier';
+import { ADVERTISING_CATEGORY } from '../classifier/taxonomy';
+
+export type AuditAction = 'classify' | 'label' | 'move' | 'copy' | 'archive' | 'trash' | 'delete' | 'unsubscribe';
+
+export interface AuditEntry {
+  id: number;
+  createdAt: string;
+  action: AuditAction;
+  uid: string;
+  messageId: string | null;
+  folder: string;
+  sender: string;
+  subject: string;
+  target: string | null;
+  category: string | null;
+  isAdvertising: boolean | null;
+  confidence: number | null;
+  reason: string | null;
+  model: string | null;
+  dryRun: boolean;
+  success: boolean;
+  error: string | null;
+}
+
+export interface AuditQuery {
+  sender?: string;    // Substring match on the sender
+  since?: Date;
+  until?: Date;
+  action?: AuditAction;
+  category?: string;
+  limit?: number;
+}
+
+interface AuditRow {
+  id: number;
+  created_at: string;
+  action: AuditAction;
+  uid: string;
+  message_id: string | null;
+  folder: string;
+  sender: string;
+  subject: string;
+  target: string | null;
+  category: string | null;
+  is_advertising: number | null;
+  confidence: number | null;
+  reason: string | null;
+  model: string | null;
+  dry_run: number;
+  success: number;
+  error: string | null;
+}
+
+/**
+ * Persistent record of every classification and mailbox action,
+ * so past decisions can be explained after the fact.
+ */
+export class AuditLog {
+  private db: Database;
+
+  constructor(db: Database = openDatabase()) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at TEXT NOT NULL,
+        action TEXT NOT NULL,
+        uid TEXT NOT NULL,
+        message_id TEXT,
+        folder TEXT NOT NULL,
+        sender TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        target TEXT,
+        category TEXT,
+        is_advertising INTEGER,
+        confidence REAL,
+        reason TEXT,
+        model TEXT,
+        dry_run INTEGER NOT NULL DEFAULT 0,
+        success INTEGER NOT NULL DEFAULT 1,
+        error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_log_sender ON audit_log (sender);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log (created_at);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_message_id ON audit_log (message_id);
+    `);
+
+    // Databases created before categories existed lack the column
+    const columns = this.db.prepare('PRAGMA table_info(audit_log)').all() as Array<{ name: string }>;
+    if (!columns.some(column => column.name === 'category')) {
+      this.db.exec('ALTER TABLE audit_log ADD COLUMN category TEXT');
+    }
+  }
+
+  /**
+   * Record the classifier's verdict for an email
+   */
+  recordClassification(email: EmailRef, result: ClassificationResult, model: string, folder: string = 'INBOX'): void {
+    this.insert({
+      action: 'classify',
+      email,
+      folder,
+      target: null,
+      reason: result.reason,
+      result,
+      model,
+      dryRun: false,
+      error: null
+    });
+  }
+
+  /**
+   * Record a mailbox action (label, delete, ...) taken on an email
+   * @param target The label or folder the action applied to
+   * @param options.reason Why the action was taken, e.g. the retention rule that fired
+   * @param options.error Error message if the action failed
+   */
+  recordAction(
+    email: EmailRef,
+    action: Exclude<AuditAction, 'classify'>,
+    target: string,
+    options: { folder?: string; dryRun?: boolean; reason?: string; error?: string } = {}
+  ): void {
+    this.insert({
+      action,
+      email,
+      folder: options.folder || 'INBOX',
+      target,
+      reason: options.reason ?? null,
+      result: null,
+      model: null,
+      dryRun: options.dryRun ?? false,
+      error: options.error ?? null
+    });
+  }
+
+  private insert(entry: {
+    action: AuditAction;
+    email: EmailRef;
+    folder: string;
+    target: string | null;
+    reason: string | null;
+    result: ClassificationResult | null;
+    model: string | null;
+    dryRun: boolean;
+    error: string | null;
+  }): void {
+    this.db.prepare(`
+      INSERT INTO audit_log (
+        created_at, action, uid, message_id, folder, sender, subject, target,
+        category, is_advertising, confidence, reason, model, dry_run, success, error
+      ) VALUES (
+        @createdAt, @action, @uid, @messageId, @folder, @sender, @subject, @target,
+        @category, @isAdvertising, @confidence, @reason, @model, @dryRun, @success, @error
+      )
+    `).run({
+      createdAt: new Date().toISOString(),
+      action: entry.action,
+      uid: entry.email.id,
+      messageId: entry.email.messageId ?? null,
+      folder: entry.folder,
+      sender: entry.email.sender,
+      subject: entry.email.subject,
+      target: entry.target,
+      category: entry.result?.category ?? null,
+      isAdvertising: entry.result ? (entry.result.isAdvertising ? 1 : 0) : null,
+      confidence: entry.result?.confidence ?? null,
+      reason: entry.reason,
+      model: entry.model,
+      dryRun: entry.dryRun ? 1 : 0,
+      success: entry.error ? 0 : 1,
+      error: entry.error
+    });
+  }
+
+  /**
+   * Latest time we successfully filed an email under a label or folder (a label,
+   * move or copy action, not in dry-run mode), matched by Message-ID, or by
+   * INBOX UID for emails without one
+   */
+  latestFiling(email: Pick<EmailRef, 'id' | 'messageId'>, label: string): AuditEntry | null {
+    const [match, params] = email.messageId
+      ? ['message_id = @messageId', { messageId: email.messageId, label }]
+      : ["uid = @uid AND folder = 'INBOX'", { uid: email.id, label }];
+    const row = this.db.prepare(`
+      SELECT * FROM audit_log
+      WHERE ${match} AND action IN ('label', 'move', 'copy') AND target = @label AND success = 1 AND dry_run = 0
+      ORDER BY id DESC LIMIT 1
+    `).get(params) as AuditRow | undefined;
+    return row ? this.toEntry(row) : null;
+  }
+
+  /**
+   * Latest classification recorded for each of the given UIDs
+   */
+  latestClassifications(uids: string[], folder: string = 'INBOX'): Map<string, AuditEntry> {
+    const latest = new Map<string, AuditEntry>();
+    const statement = this.db.prepare(`
+      SELECT * FROM audit_log
+      WHERE action = 'classify' AND uid = ? AND folder = ?
+      ORDER BY id DESC LIMIT 1
+    `);
+    for (const uid of uids) {
+      const row = statement.get(uid, folder) as AuditRow | undefined;
+      if (row) {
+        latest.set(uid, this.toEntry(row));
+      }
+    }
+    return latest;
+  }
+
+  /**
+   * Category of the latest classification of an email, matched by Message-ID
+   */
+  latestCategory(messageId: string): string | null {
+    const row = this.db.prepare(`
+      SELECT category FROM audit_log
+      WHERE action = 'classify' AND message_id = ? AND category IS NOT NULL
+      ORDER BY id DESC LIMIT 1
+    `).get(messageId) as { category: string } | undefined;
+    return row?.category ?? null;
+  }
+
+  get(id: number): AuditEntry | null {
+    const row = this.db.prepare('SELECT * FROM audit_log WHERE id = ?').get(id) as AuditRow | undefined;
+    return row ? this.toEntry(row) : null;
+  }
+
+  /**
+   * Number of emails classified as advertising per sender and day. Each email
+   * (by Message-ID, or UID without one) counts once, on the day it was first
+   * classified, if its latest classification is advertising; classifying it
+   * again or a correction by the user doesn't count it twice.
+   * @param since Only emails first classified on or after this date
+   */
+  advertisingVolume(since: Date): Array<{ sender: string; day: string; count: number }> {
+    return this.db.prepare(`
+      WITH emails AS (
+        SELECT MAX(id) AS latest_id, MIN(created_at) AS first_classified
+        FROM audit_log
+        WHERE action = 'classify'
+        GROUP BY COALESCE(message_id, folder || ':' || uid)
+      )
+      SELECT latest.sender, substr(emails.first_classified, 1, 10) AS day, COUNT(*) AS count
+      FROM emails JOIN audit_log AS latest ON latest.id = emails.latest_id
+      WHERE emails.first_classified >= @since
+        AND (latest.category = @category OR (latest.category IS NULL AND latest.is_advertising = 1))
+      GROUP BY latest.sender, day
+      ORDER BY day
+    `).all({ since: since.toISOString(), category: ADVERTISING_CATEGORY }) as Array<{ sender: string; day: string; count: number }>;
+  }
+
+  /**
+   * Search the audit log, newest entries first
+   */
+  search(query: AuditQuery = {}): AuditEntry[] {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (query.sender) {
+      conditions.push('sender LIKE @sender');
+      params.sender = `%${query.sender}%`;
+    }
+    if (query.since) {
+      conditions.push('created_at >= @since');
+      params.since = query.since.toISOString();
+    }
+    if (query.until) {
+      conditions.push('created_at <= @until');
+      params.until = query.until.toISOString();
+    }
+    if (query.action) {
+      conditions.push('action = @action');
+      params.action = query.action;
+    }
+    if (query.category) {
+      conditions.push('category = @category');
+      params.category = query.category;
+    }
+    params.limit = query.limit ?? 100;
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM audit_log ${where} ORDER BY created_at DESC, id DESC LIMIT @limit`)
+      .all(params) as AuditRow[];
+
+    return rows.map(row => this.toEntry(row));
+  }
+
+  private toEntry(row: AuditRow): AuditEntry {
+    return {
+      id: row.id,
+      createdAt: row.created_at,
+      action: row.action,
+      uid: row.uid,
+      messageId: row.message_id,
+      folder: row.folder,
+      sender: row.sender,
+      subject: row.subject,
+      target: row.target,
+      category: row.category,
+      isAdvertising: row.is_advertising === null ? null : row.is_advertising === 1,
+      confidence: row.confidence,
+      reason: row.reason,
+      model: row.model,
+      dryRun: row.dry_run === 1,
+      success: row.success === 1,
+      error: row.error
+    };
+  }
+}
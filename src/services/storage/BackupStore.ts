@@ -0,0 +1,134 @@
+import { Database, openDatabase } from './Database';
+
+export interface BackupEntry {
+  id: number;
+  messageId: string | null;
+  folder: string;     // Folder the email was removed from
+  sender: string;
+  subject: string;
+  date: string;       // Internal date of the email
+  flags: string[];
+  file: string;       // Archive file name, relative to the backup directory
+  offset: number;     // Byte offset of the message's gzip member in the file
+  length: number;     // Length of the gzip member in bytes
+  createdAt: string;
+}
+
+export interface BackupQuery {
+  sender?: string;    // Substring match on the sender
+  since?: Date;       // Backed up on or after this date
+  limit?: number;
+}
+
+interface BackupRow {
+  id: number;
+  message_id: string | null;
+  folder: string;
+  sender: string;
+  subject: string;
+  date: string;
+  flags: string;
+  file: string;
+  byte_offset: number;
+  byte_length: number;
+  created_at: string;
+}
+
+/**
+ * Index of the messages in the backup archive, pointing into the archive files
+ */
+export class BackupStore {
+  private db: Database;
+
+  constructor(db: Database = openDatabase()) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS backups (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        message_id TEXT,
+        folder TEXT NOT NULL,
+        sender TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        date TEXT NOT NULL,
+        flags TEXT NOT NULL,
+        file TEXT NOT NULL,
+        byte_offset INTEGER NOT NULL,
+        byte_length INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_backups_message_id ON backups (message_id);
+      CREATE INDEX IF NOT EXISTS idx_backups_file ON backups (file);
+    `);
+  }
+
+  record(entry: Omit<BackupEntry, 'id' | 'createdAt'>): BackupEntry {
+    const createdAt = new Date().toISOString();
+    const result = this.db.prepare(`
+      INSERT INTO backups (message_id, folder, sender, subject, date, flags, file, byte_offset, byte_length, created_at)
+      VALUES (@messageId, @folder, @sender, @subject, @date, @flags, @file, @offset, @length, @createdAt)
+    `).run({ ...entry, flags: JSON.stringify(entry.flags), createdAt });
+    return { ...entry, id: Number(result.lastInsertRowid), createdAt };
+  }
+
+  get(id: number): BackupEntry | null {
+    const row = this.db.prepare('SELECT * FROM backups WHERE id = ?').get(id) as BackupRow | undefined;
+    return row ? this.toEntry(row) : null;
+  }
+
+  /**
+   * Backups of an email, newest first
+   */
+  findByMessageId(messageId: string): BackupEntry[] {
+    const rows = this.db
+      .prepare('SELECT * FROM backups WHERE message_id = ? ORDER BY id DESC')
+      .all(messageId) as BackupRow[];
+    return rows.map(row => this.toEntry(row));
+  }
+
+  /**
+   * Search the backups, newest first
+   */
+  search(query: BackupQuery = {}): BackupEntry[] {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (query.sender) {
+      conditions.push('sender LIKE @sender');
+      params.sender = `%${query.sender}%`;
+    }
+    if (query.since) {
+      conditions.push('created_at >= @since');
+      params.since = query.since.toISOString();
+    }
+    params.limit = query.limit ?? 100;
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM backups ${where} ORDER BY id DESC LIMIT @limit`)
+      .all(params) as BackupRow[];
+    return rows.map(row => this.toEntry(row));
+  }
+
+  /**
+   * Forget the messages stored in an archive file that was rotated away
+   */
+  removeFile(file: string): void {
+    this.db.prepare('DELETE FROM backups WHERE file = ?').run(file);
+  }
+
+  private toEntry(row: BackupRow): BackupEntry {
+    return {
+      id: row.id,
+      messageId: row.message_id,
+      folder: row.folder,
+      sender: row.sender,
+      subject: row.subject,
+      date: row.date,
+      flags: JSON.parse(row.flags),
+      file: row.file,
+      offset: row.byte_offset,
+      length: row.byte_length,
+      createdAt: row.created_at
+    };
+  }
+}
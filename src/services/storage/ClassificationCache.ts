@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import { Database, openDatabase } from './Database';
+import { Email } from '../email/MailProvider';
+import { ClassificationResult } from '../classifier/Classifier';
+import { extractAddress } from '../../utils/address';
+
+interface CacheRow {
+  version: string;
+  result: string;
+}
+
+/**
+ * Text with the parts that differ between copies of the same mailing removed:
+ * case, whitespace, links (tracking parameters) and numbers (order and customer IDs)
+ */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/\d+/g, '#')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Hash of an email's normalized sender, subject and body, equal for copies of
+ * the same mailing sent to several people (or accounts)
+ */
+export function contentHash(email: Pick<Email, 'sender' | 'subject' | 'body'>): string {
+  return crypto.createHash('sha256')
+    .update([extractAddress(email.sender), normalize(email.subject), normalize(email.body)].join('\n'))
+    .digest('hex');
+}
+
+/**
+ * Keys an email's classification is cached under: its Message-ID, if it has
+ * one, and the hash of its content
+ */
+export function cacheKeys(email: Pick<Email, 'messageId' | 'sender' | 'subject' | 'body'>): string[] {
+  return [
+    ...(email.messageId ? [`message-id:${email.messageId}`] : []),
+    `content:${contentHash(email)}`
+  ];
+}
+
+/**
+ * Classifier results kept across runs, so an email is not sent to the
+ * classifier again after a crashed run, and identical mailings are only
+ * classified once. Each entry records the version (model and prompt) that
+ * produced it; entries from another version are ignored and replaced.
+ */
+export class ClassificationCache {
+  private db: Database;
+
+  constructor(db: Database = openDatabase()) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS classification_cache (
+        cache_key TEXT PRIMARY KEY,
+        version TEXT NOT NULL,
+        result TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `);
+  }
+
+  /**
+   * The cached result under the first of the keys that has one for this version
+   */
+  get(keys: string[], version: string): ClassificationResult | null {
+    const select = this.db.prepare('SELECT version, result FROM classification_cache WHERE cache_key = ?');
+    for (const key of keys) {
+      const row = select.get(key) as CacheRow | undefined;
+      if (row && row.version === version) {
+        return JSON.parse(row.result) as ClassificationResult;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Store a result under every key, replacing what was there
+   */
+  set(keys: string[], version: string, result: ClassificationResult): void {
+    const insert = this.db.prepare(`
+      INSERT INTO classification_cache (cache_key, version, result, created_at)
+      VALUES (@key, @version, @result, @createdAt)
+      ON CONFLICT (cache_key) DO UPDATE SET
+        version = excluded.version,
+        result = excluded.result,
+        created_at = excluded.created_at
+    `);
+    const createdAt = new Date().toISOString();
+    this.db.transaction(() => {
+      for (const key of keys) {
+        insert.run({ key, version, result: JSON.stringify(result), createdAt });
+      }
+    })();
+  }
+}
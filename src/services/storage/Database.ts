@@ -0,0 +1,45 @@
+import fs from 'fs';
+import path from 'path';
+import BetterSqlite3 from 'better-sqlite3';
+import { config } from '../../config/env';
+
+export type Database = BetterSqlite3.Database;
+
+const openDatabases = new Map<string, Database>();
+
+/**
+ * Location of the local SQLite database in a data directory
+ */
+export function databasePath(dataDir: string = config.dataDir): string {
+  return path.join(dataDir, 'email-deletifier.db');
+}
+
+/**
+ * Open (or reuse) the local SQLite database in DATA_DIR.
+ * All local stores of an account share this single database file.
+ * @param filePath Optional override of the database location, e.g. another account's
+ */
+export function openDatabase(filePath: string = databasePath()): Database {
+  const existing = openDatabases.get(filePath);
+  if (existing?.open) {
+    return existing;
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const db = new BetterSqlite3(filePath);
+  db.pragma('journal_mode = WAL');
+  openDatabases.set(filePath, db);
+  return db;
+}
+
+/**
+ * Close every database opened by openDatabase
+ */
+export function closeDatabase(): void {
+  for (const db of openDatabases.values()) {
+    if (db.open) {
+      db.close();
+    }
+  }
+  openDatabases.clear();
+}
@@ -0,0 +1,187 @@
+import { Database, openDatabase } from './Database';
+import { EmailRef } from '../email/MailProvider';
+
+export type QueueStatus = 'pending' | 'approved' | 'rejected' | 'deleted' | 'failed';
+
+/** Retention actions that remove an email and therefore go through the queue */
+export type QueuedAction = 'delete' | 'trash';
+
+export interface QueuedDeletion {
+  id: number;
+  uid: string;
+  messageId: string | null;
+  folder: string;
+  sender: string;
+  subject: string;
+  action: QueuedAction;
+  reason: string;             // Why the email was queued, e.g. the retention rule that fired
+  status: QueueStatus;
+  queuedAt: string;
+  reviewedAt: string | null;  // When it was approved or rejected
+  finishedAt: string | null;  // When it was deleted, or failed to be
+  error: string | null;
+}
+
+export interface QueueQuery {
+  status?: QueueStatus;
+  sender?: string;    // Substring match on the sender
+  limit?: number;
+}
+
+interface QueueRow {
+  id: number;
+  uid: string;
+  message_id: string | null;
+  folder: string;
+  sender: string;
+  subject: string;
+  action: QueuedAction;
+  reason: string;
+  status: QueueStatus;
+  queued_at: string;
+  reviewed_at: string | null;
+  finished_at: string | null;
+  error: string | null;
+}
+
+/**
+ * Emails the cleanup pass wants to delete, waiting for approval.
+ * Approved emails, and pending ones nobody reviewed within the
+ * deletion delay, are deleted by the next cleanup pass.
+ */
+export class DeletionQueue {
+  private db: Database;
+
+  constructor(db: Database = openDatabase()) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS deletion_queue (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        uid TEXT NOT NULL,
+        message_id TEXT,
+        folder TEXT NOT NULL,
+        sender TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        action TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        status TEXT NOT NULL,
+        queued_at TEXT NOT NULL,
+        reviewed_at TEXT,
+        finished_at TEXT,
+        error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_deletion_queue_status ON deletion_queue (status);
+      CREATE INDEX IF NOT EXISTS idx_deletion_queue_uid ON deletion_queue (folder, uid);
+    `);
+  }
+
+  /**
+   * Queue an email for deletion, unless it is already waiting
+   * @returns The queued item, or null if the email was already queued
+   */
+  enqueue(email: EmailRef, folder: string, action: QueuedAction, reason: string): QueuedDeletion | null {
+    const existing = this.db.prepare(`
+      SELECT id FROM deletion_queue
+      WHERE folder = ? AND uid = ? AND status IN ('pending', 'approved')
+    `).get(folder, email.id);
+    if (existing) return null;
+
+    const result = this.db.prepare(`
+      INSERT INTO deletion_queue (uid, message_id, folder, sender, subject, action, reason, status, queued_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?)
+    `).run(email.id, email.messageId ?? null, folder, email.sender, email.subject, action, reason, new Date().toISOString());
+    return this.get(Number(result.lastInsertRowid));
+  }
+
+  get(id: number): QueuedDeletion | null {
+    const row = this.db.prepare('SELECT * FROM deletion_queue WHERE id = ?').get(id) as QueueRow | undefined;
+    return row ? this.toItem(row) : null;
+  }
+
+  /**
+   * Queued items, oldest first
+   */
+  list(query: QueueQuery = {}): QueuedDeletion[] {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (query.status) {
+      conditions.push('status = @status');
+      params.status = query.status;
+    }
+    if (query.sender) {
+      conditions.push('sender LIKE @sender');
+      params.sender = `%${query.sender}%`;
+    }
+    params.limit = query.limit ?? 100;
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM deletion_queue ${where} ORDER BY id LIMIT @limit`)
+      .all(params) as QueueRow[];
+    return rows.map(row => this.toItem(row));
+  }
+
+  /**
+   * Items to delete now: approved ones, and pending ones queued more than delayDays ago
+   */
+  due(delayDays: number): QueuedDeletion[] {
+    const cutoff = new Date(Date.now() - delayDays * 24 * 60 * 60 * 1000).toISOString();
+    const rows = this.db.prepare(`
+      SELECT * FROM deletion_queue
+      WHERE status = 'approved' OR (status = 'pending' AND queued_at <= ?)
+      ORDER BY id
+    `).all(cutoff) as QueueRow[];
+    return rows.map(row => this.toItem(row));
+  }
+
+  /**
+   * Approve or reject an item that hasn't been deleted yet
+   * @returns false if there is no waiting item with that ID
+   */
+  review(id: number, status: 'approved' | 'rejected'): boolean {
+    const result = this.db.prepare(`
+      UPDATE deletion_queue SET status = ?, reviewed_at = ? WHERE id = ? AND status IN ('pending', 'approved')
+    `).run(status, new Date().toISOString(), id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Approve every pending item, optionally only those from matching senders
+   * @returns The number of approved items
+   */
+  approveAll(sender?: string): number {
+    const result = this.db.prepare(`
+      UPDATE deletion_queue SET status = 'approved', reviewed_at = @now
+      WHERE status = 'pending' AND sender LIKE @sender
+    `).run({ now: new Date().toISOString(), sender: `%${sender ?? ''}%` });
+    return result.changes;
+  }
+
+  /**
+   * Record the outcome of deleting an item
+   */
+  finish(id: number, error?: string): void {
+    this.db.prepare(`
+      UPDATE deletion_queue SET status = ?, finished_at = ?, error = ? WHERE id = ?
+    `).run(error ? 'failed' : 'deleted', new Date().toISOString(), error ?? null, id);
+  }
+
+  private toItem(row: QueueRow): QueuedDeletion {
+    return {
+      id: row.id,
+      uid: row.uid,
+      messageId: row.message_id,
+      folder: row.folder,
+      sender: row.sender,
+      subject: row.subject,
+      action: row.action,
+      reason: row.reason,
+      status: row.status,
+      queuedAt: row.queued_at,
+      reviewedAt: row.reviewed_at,
+      finishedAt: row.finished_at,
+      error: row.error
+    };
+  }
+}
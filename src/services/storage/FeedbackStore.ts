@@ -0,0 +1,122 @@
+import { Database, openDatabase } from './Database';
+import { Email } from '../email/MailProvider';
+import { TrainingExample } from '../classifier/Classifier';
+
+/**
+ * false_positive: we labeled it advertising, the user removed the label.
+ * false_negative: we did not label it, the user added the label.
+ */
+export type CorrectionSource = 'false_positive' | 'false_negative';
+
+export interface Correction extends TrainingExample {
+  id: number;
+  createdAt: string;
+  uid: string;
+  messageId: string | null;
+  source: CorrectionSource;
+}
+
+interface CorrectionRow {
+  id: number;
+  created_at: string;
+  uid: string;
+  message_id: string | null;
+  sender: string;
+  subject: string;
+  body: string;
+  is_advertising: number;
+  category: string | null;
+  source: CorrectionSource;
+}
+
+/**
+ * Training examples collected from user corrections of our labels
+ */
+export class FeedbackStore {
+  private db: Database;
+
+  constructor(db: Database = openDatabase()) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS training_examples (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at TEXT NOT NULL,
+        email_key TEXT NOT NULL UNIQUE,
+        uid TEXT NOT NULL,
+        message_id TEXT,
+        sender TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        is_advertising INTEGER NOT NULL,
+        category TEXT,
+        source TEXT NOT NULL
+      );
+    `);
+
+    // Databases created before corrections recorded a category lack the column
+    const columns = this.db.prepare('PRAGMA table_info(training_examples)').all() as Array<{ name: string }>;
+    if (!columns.some(column => column.name === 'category')) {
+      this.db.exec('ALTER TABLE training_examples ADD COLUMN category TEXT');
+    }
+  }
+
+  /**
+   * Store a correction. Each email is only recorded once.
+   * @param category The category the email belongs in; defaults to advertising or personal, following isAdvertising
+   * @returns true if the correction was new
+   */
+  addCorrection(email: Email, isAdvertising: boolean, source: CorrectionSource, category?: string): boolean {
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO training_examples (
+        created_at, email_key, uid, message_id, sender, subject, body, is_advertising, category, source
+      ) VALUES (
+        @createdAt, @emailKey, @uid, @messageId, @sender, @subject, @body, @isAdvertising, @category, @source
+      )
+    `).run({
+      createdAt: new Date().toISOString(),
+      emailKey: email.messageId || `uid:${email.id}`,
+      uid: email.id,
+      messageId: email.messageId ?? null,
+      sender: email.sender,
+      subject: email.subject,
+      body: email.body,
+      isAdvertising: isAdvertising ? 1 : 0,
+      category: category ?? null,
+      source
+    });
+    return result.changes > 0;
+  }
+
+  /**
+   * Most recent corrections, oldest first
+   */
+  recentCorrections(limit: number = 10): Correction[] {
+    const rows = this.db
+      .prepare('SELECT * FROM training_examples ORDER BY id DESC LIMIT ?')
+      .all(limit) as CorrectionRow[];
+    return rows.reverse().map(row => this.toCorrection(row));
+  }
+
+  /**
+   * Every correction, oldest first, e.g. to retrain a model from scratch
+   */
+  allCorrections(): Correction[] {
+    const rows = this.db.prepare('SELECT * FROM training_examples ORDER BY id').all() as CorrectionRow[];
+    return rows.map(row => this.toCorrection(row));
+  }
+
+  private toCorrection(row: CorrectionRow): Correction {
+    return {
+      id: row.id,
+      createdAt: row.created_at,
+      uid: row.uid,
+      messageId: row.message_id,
+      sender: row.sender,
+      subject: row.subject,
+      body: row.body,
+      isAdvertising: row.is_advertising === 1,
+      category: row.category ?? undefined,
+      source: row.source
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import { Database, openDatabase } from './Database';
+
+export interface MessageKey {
+  account: string;
+  folder: string;
+  uidValidity: number;
+  uid: number;
+  messageId?: string;
+}
+
+/**
+ * Labels kept on this machine for servers that can't store custom
+ * keywords on messages. Messages are identified by UID within a given
+ * UIDVALIDITY, and by Message-ID so labels survive a mailbox rebuild.
+ */
+export class LocalLabelStore {
+  private db: Database;
+
+  constructor(db: Database = openDatabase()) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS local_labels (
+        account TEXT NOT NULL,
+        folder TEXT NOT NULL,
+        uid_validity INTEGER NOT NULL,
+        uid INTEGER NOT NULL,
+        message_id TEXT,
+        label TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (account, folder, uid_validity, uid, label)
+      );
+      CREATE INDEX IF NOT EXISTS idx_local_labels_message_id ON local_labels (account, message_id);
+    `);
+  }
+
+  add(key: MessageKey, label: string): void {
+    this.db.prepare(`
+      INSERT OR IGNORE INTO local_labels (account, folder, uid_validity, uid, message_id, label, created_at)
+      VALUES (@account, @folder, @uidValidity, @uid, @messageId, @label, @createdAt)
+    `).run({
+      account: key.account,
+      folder: key.folder,
+      uidValidity: key.uidValidity,
+      uid: key.uid,
+      messageId: key.messageId ?? null,
+      label,
+      createdAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Remove a label from a message, matched by UID or by Message-ID
+   */
+  remove(key: MessageKey, label: string): void {
+    this.db.prepare(`
+      DELETE FROM local_labels
+      WHERE account = @account AND label = @label AND (
+        (folder = @folder AND uid_validity = @uidValidity AND uid = @uid)
+        OR (@messageId IS NOT NULL AND message_id = @messageId)
+      )
+    `).run({
+      account: key.account,
+      folder: key.folder,
+      uidValidity: key.uidValidity,
+      uid: key.uid,
+      messageId: key.messageId ?? null,
+      label
+    });
+  }
+
+  /**
+   * UIDs in a folder that carry the label
+   */
+  uidsWithLabel(account: string, folder: string, uidValidity: number, label: string): Set<number> {
+    const rows = this.db.prepare(`
+      SELECT uid FROM local_labels
+      WHERE account = ? AND folder = ? AND uid_validity = ? AND label = ?
+    `).all(account, folder, uidValidity, label) as Array<{ uid: number }>;
+    return new Set(rows.map(row => row.uid));
+  }
+
+  /**
+   * Labels stored for a message, matched by UID or by Message-ID
+   */
+  labelsFor(key: MessageKey): string[] {
+    const rows = this.db.prepare(`
+      SELECT DISTINCT label FROM local_labels
+      WHERE account = @account AND (
+        (folder = @folder AND uid_validity = @uidValidity AND uid = @uid)
+        OR (@messageId IS NOT NULL AND message_id = @messageId)
+      )
+    `).all({
+      account: key.account,
+      folder: key.folder,
+      uidValidity: key.uidValidity,
+      uid: key.uid,
+      messageId: key.messageId ?? null
+    }) as Array<{ label: string }>;
+    return rows.map(row => row.label);
+  }
+}
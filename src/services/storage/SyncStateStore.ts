@@ -0,0 +1,96 @@
+import { Database, openDatabase } from './Database';
+
+export interface SyncState {
+  uidValidity: number;
+  highWaterUid: number;
+  updatedAt: string;
+}
+
+interface SyncStateRow {
+  uid_validity: number;
+  high_water_uid: number;
+  updated_at: string;
+}
+
+/**
+ * Per-folder high-water mark UID and UIDVALIDITY, so incremental runs
+ * resume where the previous run stopped and notice rebuilt mailboxes.
+ * Where the mark can't stay behind an email (Gmail history), the emails
+ * a run failed to handle are kept as pending IDs instead.
+ */
+export class SyncStateStore {
+  private db: Database;
+
+  constructor(db: Database = openDatabase()) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sync_state (
+        account TEXT NOT NULL,
+        folder TEXT NOT NULL,
+        uid_validity INTEGER NOT NULL,
+        high_water_uid INTEGER NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (account, folder)
+      );
+
+      CREATE TABLE IF NOT EXISTS sync_pending (
+        account TEXT NOT NULL,
+        folder TEXT NOT NULL,
+        email_id TEXT NOT NULL,
+        PRIMARY KEY (account, folder, email_id)
+      );
+    `);
+  }
+
+  get(account: string, folder: string): SyncState | null {
+    const row = this.db
+      .prepare('SELECT uid_validity, high_water_uid, updated_at FROM sync_state WHERE account = ? AND folder = ?')
+      .get(account, folder) as SyncStateRow | undefined;
+    if (!row) return null;
+
+    return {
+      uidValidity: row.uid_validity,
+      highWaterUid: row.high_water_uid,
+      updatedAt: row.updated_at
+    };
+  }
+
+  /**
+   * Save the high-water mark. A new UIDVALIDITY replaces the old mark entirely.
+   */
+  set(account: string, folder: string, uidValidity: number, highWaterUid: number): void {
+    this.db.prepare(`
+      INSERT INTO sync_state (account, folder, uid_validity, high_water_uid, updated_at)
+      VALUES (@account, @folder, @uidValidity, @highWaterUid, @updatedAt)
+      ON CONFLICT (account, folder) DO UPDATE SET
+        uid_validity = excluded.uid_validity,
+        high_water_uid = CASE
+          WHEN sync_state.uid_validity = excluded.uid_validity
+            THEN MAX(sync_state.high_water_uid, excluded.high_water_uid)
+          ELSE excluded.high_water_uid
+        END,
+        updated_at = excluded.updated_at
+    `).run({ account, folder, uidValidity, highWaterUid, updatedAt: new Date().toISOString() });
+  }
+
+  /**
+   * IDs of the emails the previous run failed to handle, to retry in the next
+   */
+  pendingIds(account: string, folder: string): string[] {
+    const rows = this.db
+      .prepare('SELECT email_id FROM sync_pending WHERE account = ? AND folder = ? ORDER BY rowid')
+      .all(account, folder) as Array<{ email_id: string }>;
+    return rows.map(row => row.email_id);
+  }
+
+  /**
+   * Replace the pending IDs of a folder
+   */
+  setPendingIds(account: string, folder: string, emailIds: string[]): void {
+    const insert = this.db.prepare('INSERT OR IGNORE INTO sync_pending (account, folder, email_id) VALUES (?, ?, ?)');
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM sync_pending WHERE account = ? AND folder = ?').run(account, folder);
+      for (const emailId of emailIds) insert.run(account, folder, emailId);
+    })();
+  }
+}
@@ -0,0 +1,68 @@
+import { Database, openDatabase } from './Database';
+
+export type UnsubscribeMethod = 'one-click' | 'mailto';
+
+export interface UnsubscribeAttempt {
+  domain: string;
+  method: UnsubscribeMethod;
+  target: string;
+  success: boolean;
+  error: string | null;
+  createdAt: string;
+}
+
+interface UnsubscribeAttemptRow {
+  domain: string;
+  method: UnsubscribeMethod;
+  target: string;
+  success: number;
+  error: string | null;
+  created_at: string;
+}
+
+/**
+ * Unsubscribe requests sent per sender domain, so each sender is only asked once
+ */
+export class UnsubscribeStore {
+  private db: Database;
+
+  constructor(db: Database = openDatabase()) {
+    this.db = db;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS unsubscribe_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        domain TEXT NOT NULL,
+        method TEXT NOT NULL,
+        target TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        error TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_unsubscribe_attempts_domain ON unsubscribe_attempts (domain);
+    `);
+  }
+
+  record(domain: string, method: UnsubscribeMethod, target: string, error?: string): void {
+    this.db.prepare(`
+      INSERT INTO unsubscribe_attempts (domain, method, target, success, error, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(domain, method, target, error ? 0 : 1, error ?? null, new Date().toISOString());
+  }
+
+  /**
+   * All attempts for a sender domain, oldest first
+   */
+  attemptsFor(domain: string): UnsubscribeAttempt[] {
+    const rows = this.db
+      .prepare('SELECT domain, method, target, success, error, created_at FROM unsubscribe_attempts WHERE domain = ? ORDER BY id')
+      .all(domain) as UnsubscribeAttemptRow[];
+    return rows.map(row => ({
+      domain: row.domain,
+      method: row.method,
+      target: row.target,
+      success: row.success === 1,
+      error: row.error,
+      createdAt: row.created_at
+    }));
+  }
+}
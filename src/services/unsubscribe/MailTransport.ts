@@ -0,0 +1,60 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { config, EnvConfig } from '../../config/env';
+
+export interface OutgoingMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Sends plain mail on behalf of the account, e.g. mailto: unsubscribe requests
+ */
+export interface MailTransport {
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;   // TLS from the start (port 465); otherwise STARTTLS when offered
+  user: string;      // Also used as the From address
+  password: string;
+}
+
+export class SmtpTransport implements MailTransport {
+  private transporter: Transporter;
+  private from: string;
+
+  constructor(options: SmtpOptions) {
+    this.from = options.user;
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined
+    });
+  }
+
+  async send(message: OutgoingMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+  }
+}
+
+/**
+ * SMTP transport for the configured account (SMTP_HOST, SMTP_PORT, SMTP_SECURE)
+ */
+export function createMailTransport(env: EnvConfig = config): MailTransport {
+  return new SmtpTransport({
+    host: env.smtpHost,
+    port: env.smtpPort,
+    secure: env.smtpSecure,
+    user: env.emailUser,
+    password: env.emailPassword
+  });
+}
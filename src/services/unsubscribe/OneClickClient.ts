@@ -0,0 +1,127 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const ONE_CLICK_BODY = 'List-Unsubscribe=One-Click';
+
+/** Addresses a one-click request must never reach: this machine, the local network and link-local services */
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['::ffff:0:0', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const LOOPBACK_ADDRESSES = new net.BlockList();
+LOOPBACK_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+LOOPBACK_ADDRESSES.addAddress('::1', 'ipv6');
+
+/**
+ * Sends RFC 8058 one-click unsubscribe requests
+ */
+export interface OneClickClient {
+  /** Whether the client will send to this URL at all, e.g. only HTTPS */
+  accepts(url: string): boolean;
+  post(url: string): Promise<void>;
+}
+
+export interface OneClickClientOptions {
+  /** Also send to this machine, over http:// as well; for tests against a local server */
+  allowLoopbackHttp?: boolean;
+}
+
+type LookupCallback = (err: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void;
+
+/**
+ * POSTs "List-Unsubscribe=One-Click" to the List-Unsubscribe URL. The URL
+ * comes from the email, so it must be HTTPS and its host must resolve to
+ * public addresses only. The host is resolved once and the connection goes
+ * to the checked address; redirects are not followed.
+ */
+export class HttpsOneClickClient implements OneClickClient {
+  private allowLoopbackHttp: boolean;
+
+  constructor(options: OneClickClientOptions = {}) {
+    this.allowLoopbackHttp = options.allowLoopbackHttp ?? false;
+  }
+
+  accepts(url: string): boolean {
+    return /^https:\/\//i.test(url) || (this.allowLoopbackHttp && /^http:\/\//i.test(url));
+  }
+
+  async post(url: string): Promise<void> {
+    if (!this.accepts(url)) {
+      throw new Error(`One-click unsubscribe URL is not HTTPS: ${url}`);
+    }
+    const target = new URL(url);
+    // IP literals are connected to without a lookup
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host)) {
+      this.checkAddress(host, net.isIP(host), url);
+    }
+
+    const client = target.protocol === 'https:' ? https : http;
+    return new Promise((resolve, reject) => {
+      const request = client.request(target, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Content-Length': Buffer.byteLength(ONE_CLICK_BODY)
+        },
+        agent: false,
+        timeout: REQUEST_TIMEOUT_MS,
+        lookup: (hostname, options, callback) => this.lookup(hostname, options, callback as LookupCallback, url)
+      }, response => {
+        response.resume();
+        const status = response.statusCode ?? 0;
+        if (status < 200 || status >= 300) {
+          reject(new Error(`One-click unsubscribe failed: HTTP ${status}`));
+          return;
+        }
+        resolve();
+      });
+      request.on('timeout', () => request.destroy(new Error(`One-click unsubscribe timed out after ${REQUEST_TIMEOUT_MS / 1000}s`)));
+      request.on('error', reject);
+      request.end(ONE_CLICK_BODY);
+    });
+  }
+
+  /**
+   * Resolve the host for the connection, refusing it if any address is not
+   * public, so the socket connects to exactly the addresses that were checked
+   */
+  private lookup(hostname: string, options: dns.LookupOptions, callback: LookupCallback, url: string): void {
+    dns.lookup(hostname, { family: options.family, hints: options.hints, all: true }, (err, addresses) => {
+      if (err) {
+        callback(err, '');
+        return;
+      }
+      try {
+        addresses.forEach(({ address, family }) => this.checkAddress(address, family, url));
+      } catch (checkErr) {
+        callback(checkErr as NodeJS.ErrnoException, '');
+        return;
+      }
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  }
+
+  private checkAddress(address: string, family: number, url: string): void {
+    const type = family === 6 ? 'ipv6' : 'ipv4';
+    if (NON_PUBLIC_ADDRESSES.check(address, type) && !(this.allowLoopbackHttp && LOOPBACK_ADDRESSES.check(address, type))) {
+      throw new Error(`One-click unsubscribe URL points to a non-public address (${address}): ${url}`);
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { Email } from '../email/MailProvider';
+import { UnsubscribeStore, UnsubscribeMethod } from '../storage/UnsubscribeStore';
+import { MailTransport } from './MailTransport';
+import { OneClickClient, HttpsOneClickClient } from './OneClickClient';
+import { extractDomain } from '../../utils/address';
+
+// Give up on a sender after this many failed requests
+const MAX_ATTEMPTS = 3;
+
+export interface UnsubscribeTargets {
+  urls: string[];     // http(s) URLs from List-Unsubscribe
+  mailtos: string[];  // mailto: URIs from List-Unsubscribe
+}
+
+export interface UnsubscribeResult {
+  status: 'sent' | 'dry-run' | 'skipped' | 'failed';
+  method?: UnsubscribeMethod;
+  target?: string;
+  reason: string;
+}
+
+/**
+ * Split a List-Unsubscribe header ("<https://...>, <mailto:...>") into its URIs
+ */
+export function parseListUnsubscribe(header: string): UnsubscribeTargets {
+  const uris = (header.match(/<[^>]+>/g) || []).map(uri => uri.slice(1, -1).trim());
+  return {
+    urls: uris.filter(uri => /^https?:\/\//i.test(uri)),
+    mailtos: uris.filter(uri => /^mailto:/i.test(uri))
+  };
+}
+
+/**
+ * Asks advertising senders to stop: an RFC 8058 one-click POST when the sender
+ * supports it, otherwise a mailto: request. Plain unsubscribe links are never
+ * visited since they usually lead to a web page that needs a human.
+ * Each sender domain is asked once; failures are retried up to MAX_ATTEMPTS times.
+ */
+export class UnsubscribeService {
+  private store: UnsubscribeStore;
+  private transport: MailTransport;
+  private dryRun: boolean;
+  private oneClick: OneClickClient;
+
+  constructor(store: UnsubscribeStore, transport: MailTransport, dryRun: boolean, oneClick: OneClickClient = new HttpsOneClickClient()) {
+    this.store = store;
+    this.transport = transport;
+    this.dryRun = dryRun;
+    this.oneClick = oneClick;
+  }
+
+  async unsubscribe(email: Email): Promise<UnsubscribeResult> {
+    const header = email.headers?.listUnsubscribe;
+    if (!header) {
+      return { status: 'skipped', reason: 'No List-Unsubscribe header' };
+    }
+
+    const domain = extractDomain(email.sender);
+    const attempts = this.store.attemptsFor(domain);
+    if (attempts.some(attempt => attempt.success)) {
+      return { status: 'skipped', reason: `Already unsubscribed from ${domain}` };
+    }
+    if (attempts.length >= MAX_ATTEMPTS) {
+      return { status: 'skipped', reason: `Gave up on ${domain} after ${attempts.length} failed attempts` };
+    }
+
+    const { urls, mailtos } = parseListUnsubscribe(header);
+    const oneClick = /List-Unsubscribe=One-Click/i.test(email.headers?.listUnsubscribePost || '');
+    const requests: Array<{ method: UnsubscribeMethod; target: string; send: () => Promise<void> }> = [];
+    // RFC 8058 requires HTTPS; the client decides which URLs it sends to
+    const url = urls.find(uri => this.oneClick.accepts(uri));
+    if (oneClick && url) {
+      requests.push({ method: 'one-click', target: url, send: () => this.oneClick.post(url) });
+    }
+    if (mailtos.length > 0) {
+      requests.push({ method: 'mailto', target: mailtos[0], send: () => this.sendMailto(mailtos[0]) });
+    }
+    if (requests.length === 0) {
+      return { status: 'skipped', reason: 'No one-click URL or mailto: address' };
+    }
+
+    let result: UnsubscribeResult = { status: 'failed', reason: 'No request sent' };
+    for (const request of requests) {
+      if (this.dryRun) {
+        return { status: 'dry-run', method: request.method, target: request.target, reason: `Would unsubscribe from ${domain}` };
+      }
+
+      try {
+        await request.send();
+        this.store.record(domain, request.method, request.target);
+        return { status: 'sent', method: request.method, target: request.target, reason: `Unsubscribed from ${domain}` };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        this.store.record(domain, request.method, request.target, message);
+        result = { status: 'failed', method: request.method, target: request.target, reason: message };
+      }
+    }
+    return result;
+  }
+
+  /**
+   * RFC 6068 mailto: URI, with optional subject and body parameters
+   */
+  private async sendMailto(uri: string): Promise<void> {
+    const mailto = new URL(uri);
+    const to = decodeURIComponent(mailto.pathname);
+    if (!to.includes('@')) {
+      throw new Error(`Invalid mailto: address: ${uri}`);
+    }
+    await this.transport.send({
+      to,
+      subject: mailto.searchParams.get('subject') || 'unsubscribe',
+      text: mailto.searchParams.get('body') || 'unsubscribe'
+    });
+  }
+}
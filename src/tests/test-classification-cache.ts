@@ -0,0 +1,100 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { OpenAIClassifier } from '../services/classifier/OpenAIClassifier';
+import { ClassificationCache } from '../services/storage/ClassificationCache';
+import { openDatabase, closeDatabase } from '../services/storage/Database';
+import { Email } from '../services/email/MailProvider';
+import { TrainingExample } from '../services/classifier/Classifier';
+
+/**
+ * Local stand-in for the chat completions endpoint that files everything as advertising
+ */
+function startOpenAIFake(requests: string[]): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      requests.push(`${req.method} ${req.url}`);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        id: `chatcmpl-${requests.length}`,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: 'gpt-4.1-nano',
+        choices: [{
+          index: 0,
+          finish_reason: 'stop',
+          message: { role: 'assistant', content: JSON.stringify({ category: 'advertising', confidence: 0.95, reason: 'Sale' }) }
+        }],
+        usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 }
+      }));
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function mailing(id: string, messageId: string): Email {
+  return {
+    id,
+    messageId,
+    subject: 'Spring sale: 30% off everything',
+    sender: 'Shop <deals@shop.example.com>',
+    date: new Date(),
+    ageInDays: 1,
+    body: 'Shop now and save 30% on every order until Sunday.',
+    html: '',
+    text: '',
+    labels: []
+  };
+}
+
+function correction(subject: string, category: string): TrainingExample {
+  return { subject, sender: 'someone@example.org', body: subject, isAdvertising: category === 'advertising', category };
+}
+
+async function testClassificationCache() {
+  const requests: string[] = [];
+  const fake = await startOpenAIFake(requests);
+  process.env.OPENAI_BASE_URL = `http://127.0.0.1:${(fake.address() as AddressInfo).port}/v1`;
+
+  // One cache shared by both accounts, as with CACHE_DIR, in a throwaway directory
+  const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'email-deletifier-test-'));
+  const cache = new ClassificationCache(openDatabase(path.join(cacheDir, 'cache.db')));
+
+  try {
+    // Each account has its own corrections as few-shot examples
+    const work = new OpenAIClassifier('test-key', [correction('Team offsite agenda', 'personal')], undefined, cache);
+    const home = new OpenAIClassifier('test-key', [correction('Your parcel has shipped', 'transactional')], undefined, cache);
+
+    const first = await work.classifyEmail(mailing('1', '<blast-1@shop.example.com>'));
+    console.log(`Work account, first copy: ${first.category} (${first.cached ? 'cache hit' : 'classified'})`);
+    const second = await home.classifyEmail(mailing('7', '<blast-2@shop.example.com>'));
+    console.log(`Home account, its own copy: ${second.category} (${second.cached ? 'cache hit' : 'classified'})`);
+
+    // A new correction in one account doesn't make the shared entries stale
+    await home.train([correction('Weekend plans?', 'personal')]);
+    const third = await work.classifyEmail(mailing('2', '<blast-1@shop.example.com>'));
+    const fourth = await home.classifyEmail(mailing('8', '<blast-2@shop.example.com>'));
+    console.log(`After a correction, work account: ${third.cached ? 'cache hit' : 'classified'}, home account: ${fourth.cached ? 'cache hit' : 'classified'}`);
+
+    console.log(`\nRequests to the API: ${requests.length}`);
+    requests.forEach(request => console.log(`- ${request}`));
+
+    const ok = requests.length === 1 && !!second.cached && !!third.cached && !!fourth.cached;
+    console.log(ok ? '\nBoth accounts share the cached result' : '\nUnexpected cache behaviour');
+    if (!ok) process.exitCode = 1;
+  } finally {
+    fake.close();
+    closeDatabase();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  }
+}
+
+// Run the test
+console.log('Starting classification cache test...\n');
+testClassificationCache().catch(error => {
+  console.error('Error during test:', error);
+  process.exit(1);
+});
@@ -1,5 +1,5 @@
 import { OpenAIClassifier } from '../services/classifier/OpenAIClassifier';
-import { Email } from '../services/email/ImapService';
+import { Email } from '../services/email/MailProvider';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -61,6 +61,7 @@ async function testClassifier() {
     const result = await classifier.classifyEmail(email);
     
     console.log('Classification Result:');
+    console.log(`Category: ${result.category}`);
     console.log(`Is Advertising: ${result.isAdvertising}`);
     console.log(`Confidence: ${(result.confidence * 100).toFixed(1)}%`);
     console.log(`Reason: ${result.reason}`);
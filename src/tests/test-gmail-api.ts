@@ -0,0 +1,219 @@
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { GmailApiService } from '../services/email/GmailApiService';
+import { closeDatabase } from '../services/storage/Database';
+import { config } from '../config/env';
+
+interface FakeMessage {
+  id: string;
+  raw: string;
+  labelIds: string[];
+  internalDate: string;
+}
+
+function rawMessage(messageId: string, from: string, subject: string): string {
+  return Buffer.from([
+    `Message-ID: <${messageId}>`,
+    `From: ${from}`,
+    'To: me@gmail.com',
+    `Subject: ${subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    '',
+    `Body of ${subject}`
+  ].join('\r\n')).toString('base64url');
+}
+
+/**
+ * In-memory fake of the Gmail REST endpoints used by GmailApiService.
+ * The first access token is rejected to exercise the refresh path, and the
+ * first label listing fails with a server error to exercise the retry.
+ */
+function startGmailFake(requests: string[]): Promise<http.Server> {
+  const labels = [
+    { id: 'INBOX', name: 'INBOX', type: 'system' },
+    { id: 'TRASH', name: 'TRASH', type: 'system' },
+    { id: 'UNREAD', name: 'UNREAD', type: 'system' },
+    { id: 'Label_1', name: 'Processed', type: 'user' }
+  ];
+  const messages: FakeMessage[] = [
+    { id: 'm1', raw: rawMessage('deal-1@shop.example.com', 'Shop <deals@shop.example.com>', 'Weekly deals'), labelIds: ['INBOX', 'UNREAD'], internalDate: String(Date.now()) },
+    { id: 'm2', raw: rawMessage('hi-2@friend.example.org', 'Friend <hi@friend.example.org>', 'Dinner?'), labelIds: ['INBOX'], internalDate: String(Date.now()) },
+    { id: 'm3', raw: rawMessage('done-3@shop.example.com', 'Shop <deals@shop.example.com>', 'Old deals'), labelIds: ['INBOX', 'Label_1'], internalDate: String(Date.now()) }
+  ];
+  const history: Array<{ id: number; message: { id: string; labelIds: string[] } }> = [];
+  let historyId = 100;
+  let nextId = 4;
+  let labelsFailed = false;  // The first label listing fails, to exercise the retry
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const route = `${req.method} ${url.pathname.replace('/gmail/v1/users/me', '')}`;
+      requests.push(route);
+      const send = (status: number, json?: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(json === undefined ? '' : JSON.stringify(json));
+      };
+
+      if (req.headers.authorization !== 'Bearer token-2') {
+        return send(401, { error: { message: 'Invalid Credentials' } });
+      }
+
+      let match: RegExpMatchArray | null;
+      if (route === 'GET /profile') return send(200, { emailAddress: 'me@gmail.com', historyId: String(historyId) });
+      if (route === 'GET /labels' && !labelsFailed) {
+        labelsFailed = true;
+        return send(503, { error: { message: 'Backend Error' } });
+      }
+      if (route === 'GET /labels') return send(200, { labels });
+      if (route === 'POST /labels') {
+        const label = { id: `Label_${labels.length + 1}`, name: JSON.parse(body).name, type: 'user' };
+        labels.push(label);
+        return send(200, label);
+      }
+      if (route === 'GET /messages') {
+        const query = url.searchParams.get('q') || '';
+        const labelId = url.searchParams.get('labelIds');
+        const excluded = labels.find(label => query.includes(`-label:${label.name}`))?.id;
+        const messageId = query.match(/rfc822msgid:(\S+)/)?.[1];
+        const found = messages.filter(message =>
+          (!labelId || message.labelIds.includes(labelId))
+          && (!excluded || !message.labelIds.includes(excluded))
+          && (!messageId || Buffer.from(message.raw, 'base64url').toString().includes(`<${messageId}>`)));
+        return send(200, { messages: found.map(message => ({ id: message.id })).reverse() });
+      }
+      if (route === 'POST /messages') {
+        const { raw, labelIds } = JSON.parse(body);
+        const message = { id: `m${nextId++}`, raw, labelIds, internalDate: String(Date.now()) };
+        messages.push(message);
+        history.push({ id: ++historyId, message: { id: message.id, labelIds } });
+        return send(200, { id: message.id });
+      }
+      if (route === 'POST /messages/batchModify') {
+        const { ids, addLabelIds, removeLabelIds } = JSON.parse(body);
+        if (!ids.every((id: string) => messages.some(message => message.id === id))) {
+          return send(400, { error: { message: 'Invalid id value' } });
+        }
+        for (const message of messages.filter(candidate => ids.includes(candidate.id))) {
+          message.labelIds = [...new Set([...message.labelIds, ...addLabelIds])].filter(id => !removeLabelIds.includes(id));
+        }
+        return send(204);
+      }
+      if (route === 'GET /history') {
+        const start = parseInt(url.searchParams.get('startHistoryId') || '0', 10);
+        if (start < 100) return send(404, { error: { message: 'Requested entity was not found.' } });
+        const records = history
+          .filter(record => record.id > start && record.message.labelIds.includes(url.searchParams.get('labelId') || ''))
+          .map(record => ({ id: String(record.id), messagesAdded: [{ message: record.message }] }));
+        return send(200, { history: records, historyId: String(historyId) });
+      }
+      if ((match = route.match(/^(GET|DELETE) \/messages\/(\w+)$/))) {
+        const message = messages.find(candidate => candidate.id === match![2]);
+        if (!message) return send(404, { error: { message: 'Not Found' } });
+        if (match[1] === 'DELETE') {
+          messages.splice(messages.indexOf(message), 1);
+          return send(204);
+        }
+        return send(200, message);
+      }
+      if ((match = route.match(/^POST \/messages\/(\w+)\/trash$/))) {
+        const message = messages.find(candidate => candidate.id === match![1]);
+        if (!message) return send(404, { error: { message: 'Not Found' } });
+        message.labelIds = ['TRASH'];
+        return send(200, message);
+      }
+      send(404, { error: { message: `No fake for ${route}` } });
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+async function testGmailApi() {
+  const requests: string[] = [];
+  const fake = await startGmailFake(requests);
+  const apiUrl = `http://127.0.0.1:${(fake.address() as AddressInfo).port}`;
+
+  let token = 'token-1';
+  const tokens = {
+    getAccessToken: async () => token,
+    invalidate: () => { token = 'token-2'; }
+  };
+
+  // Use a throwaway data directory so the test never touches the real sync state
+  const env = { ...config, emailUser: 'me@gmail.com', hardDelete: false, dataDir: path.join(os.tmpdir(), `email-deletifier-test-${Date.now()}`) };
+  const gmail = new GmailApiService(env, tokens, apiUrl);
+
+  try {
+    await gmail.connect();
+    console.log(`Connected (token after refresh: ${token})`);
+
+    await gmail.ensureFolderExists('Advertising');
+    console.log(`Folders: ${(await gmail.listFolders()).join(', ')}`);
+
+    const unprocessed = await gmail.fetchEmails({ maxAgeDays: 30, batchSize: 10, includeRead: true, includeUnread: true });
+    console.log('\nUnprocessed INBOX emails:');
+    unprocessed.forEach(email => console.log(`- ${email.id}: ${email.subject} from ${email.sender} [${email.labels?.join(', ')}] ${email.flags?.join(' ')}`));
+
+    console.log('\nFirst incremental run (full listing):');
+    for await (const batch of gmail.iterateEmails({ maxAgeDays: 30, batchSize: 1, includeRead: true, includeUnread: true, incremental: true })) {
+      batch.forEach(email => console.log(`- ${email.id}: ${email.subject}`));
+    }
+
+    const failures = await gmail.addLabels([{ id: 'm1' }, { id: 'm2' }, { id: 'missing' }], 'Processed');
+    console.log(`\nBatch label failures: ${[...failures.keys()].join(', ') || '(none)'}`);
+    await gmail.subscribeToNewMail(() => undefined, 60000);
+    await gmail.appendMessage({
+      source: Buffer.from(rawMessage('new-4@shop.example.com', 'Shop <deals@shop.example.com>', 'Flash sale'), 'base64url'),
+      flags: [],
+      date: new Date()
+    }, 'INBOX');
+
+    console.log('\nSecond incremental run (history since the first), failing on every email:');
+    const unhandled = new Set<string>();
+    for await (const batch of gmail.iterateEmails({ maxAgeDays: 30, batchSize: 10, includeRead: true, includeUnread: true, incremental: true, unhandled })) {
+      batch.forEach(email => {
+        console.log(`- ${email.id}: ${email.subject}`);
+        unhandled.add(email.id);
+      });
+    }
+
+    console.log('\nThird incremental run (retries the unhandled emails, history moved on):');
+    for await (const batch of gmail.iterateEmails({ maxAgeDays: 30, batchSize: 10, includeRead: true, includeUnread: true, incremental: true })) {
+      batch.forEach(email => console.log(`- ${email.id}: ${email.subject}`));
+    }
+    console.log(`New mail since subscribing: ${(await gmail.fetchNewEmails()).map(email => email.subject).join(', ')}`);
+    gmail.unsubscribeFromNewMail();
+
+    const [newId] = await gmail.findByMessageId('<new-4@shop.example.com>');
+    console.log(`\nFound by Message-ID: ${newId}`);
+    const promotions = await gmail.searchEmails('rfc822msgid:deal-1@shop.example.com');
+    console.log(`Search by query: ${promotions.map(email => email.subject).join(', ')}`);
+
+    await gmail.moveEmail(newId, 'Advertising');
+    const advertising = await gmail.fetchEmails({ maxAgeDays: 0, batchSize: 10, includeRead: true, includeUnread: true }, 'Advertising');
+    console.log(`Moved to Advertising: ${advertising.map(email => email.subject).join(', ')}`);
+
+    await gmail.deleteEmail(newId, 'Advertising');
+    await gmail.deleteEmail(newId, 'TRASH');
+    const source = await gmail.fetchSource('m2');
+    console.log(`Raw source of m2: ${source.source.length} bytes, flags ${source.flags.join(' ') || '(none)'}`);
+
+    console.log('\nRequests received by the fake:');
+    requests.forEach(request => console.log(`- ${request}`));
+  } finally {
+    await gmail.disconnect();
+    fake.close();
+    closeDatabase();
+  }
+}
+
+// Run the test
+console.log('Starting Gmail API test...\n');
+testGmailApi().catch(error => {
+  console.error('Error during test:', error);
+  process.exit(1);
+});
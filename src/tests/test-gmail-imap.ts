@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ImapService } from '../services/email/ImapService';
+import { Email } from '../services/email/MailProvider';
+import { RetentionPolicy } from '../services/retention/RetentionPolicy';
+import { config } from '../config/env';
+
+/**
+ * Stand-in for the node-imap connection that keeps Gmail labels per UID and
+ * records the label commands, so the label moves can be checked offline
+ */
+class FakeGmailImap {
+  private openFolder = '';
+
+  constructor(private labels: Map<string, Set<string>>, private commands: string[]) {}
+
+  openBox(folderName: string, _readOnly: boolean, callback: (err: Error | null, box: unknown) => void): void {
+    this.openFolder = folderName;
+    callback(null, { name: folderName, uidvalidity: 1, newKeywords: true });
+  }
+
+  addLabels(uids: string | string[], label: string, callback: (err: Error | null) => void): void {
+    this.change(uids, label, 'add', callback);
+  }
+
+  delLabels(uids: string | string[], label: string, callback: (err: Error | null) => void): void {
+    this.change(uids, label, 'remove', callback);
+  }
+
+  private change(uids: string | string[], label: string, change: 'add' | 'remove', callback: (err: Error | null) => void): void {
+    const list = Array.isArray(uids) ? uids : [uids];
+    this.commands.push(`${this.openFolder}: ${change} "${label}" on ${list.join(',')}`);
+    for (const uid of list) {
+      const labels = this.labels.get(uid);
+      if (!labels) {
+        callback(new Error(`No message with UID ${uid}`));
+        return;
+      }
+      if (change === 'add') labels.add(label); else labels.delete(label);
+    }
+    callback(null);
+  }
+}
+
+async function testGmailImapMoves() {
+  // UIDs are per folder on a real server; here each UID is one message
+  const labels = new Map<string, Set<string>>([
+    ['1', new Set(['\\Inbox'])],
+    ['7', new Set(['Receipts'])],
+    ['8', new Set(['Receipts'])],
+    ['9', new Set(['Receipts', '\\Inbox'])],
+    ['10', new Set(['Receipts'])]
+  ]);
+  const commands: string[] = [];
+  const imapService = new ImapService({ ...config, imapHost: 'imap.gmail.com', imapAuth: 'password' });
+  (imapService as any).imap = new FakeGmailImap(labels, commands);
+  (imapService as any).connected = true;
+
+  await imapService.moveEmail('1', 'Advertising');
+  await imapService.moveEmail('7', 'Old Receipts', 'Receipts');
+  const failures = await imapService.moveEmails(['8', '9', '404'], 'Old Receipts', 'Receipts');
+
+  // A retention move rule on a label, applied the way the cleanup pass applies it
+  const policyFile = path.join(os.tmpdir(), `retention-${process.pid}.json`);
+  fs.writeFileSync(policyFile, JSON.stringify({
+    rules: [{ name: 'old receipts', folder: 'Receipts', olderThanDays: 365, action: 'move', target: 'Old Receipts' }]
+  }));
+  try {
+    const receipt: Email = {
+      id: '10', subject: 'Your order', sender: 'orders@shop.example.com', date: new Date(0), ageInDays: 400,
+      body: '', html: '', text: '', labels: ['Receipts']
+    };
+    const decision = new RetentionPolicy([], policyFile).evaluate(receipt, { folder: 'Receipts', category: null });
+    if (!decision) throw new Error('The retention rule did not match');
+    await imapService.moveEmail(receipt.id, decision.rule.target as string, 'Receipts');
+  } finally {
+    fs.rmSync(policyFile, { force: true });
+  }
+
+  console.log('Label commands:');
+  commands.forEach(command => console.log(`- ${command}`));
+  console.log('\nLabels after the moves:');
+  for (const [uid, uidLabels] of labels) {
+    console.log(`- ${uid}: ${[...uidLabels].join(', ')}`);
+  }
+  console.log(`\nBatch move failures: ${[...failures.entries()].map(([uid, err]) => `${uid} (${err.message})`).join(', ') || '(none)'}`);
+
+  const ok = [...labels.values()].every(uidLabels => !uidLabels.has('Receipts'))
+    && !labels.get('1')!.has('\\Inbox') && labels.get('9')!.has('\\Inbox');
+  console.log(ok ? '\nMoved emails left their source label only' : '\nUnexpected labels after the moves');
+  if (!ok) process.exit(1);
+}
+
+// Run the test
+console.log('Starting Gmail IMAP move test...\n');
+testGmailImapMoves().catch(error => {
+  console.error('Error during test:', error);
+  process.exit(1);
+});
@@ -0,0 +1,110 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EmailProcessor, processorOptionsFromConfig } from '../services/processor/EmailProcessor';
+import { Classifier, ClassificationResult, BatchClassification } from '../services/classifier/Classifier';
+import { DEFAULT_CATEGORY } from '../services/classifier/taxonomy';
+import { Email, MailProvider } from '../services/email/MailProvider';
+import { EmailHeaders } from '../services/email/headers';
+import { closeDatabase } from '../services/storage/Database';
+import { config } from '../config/env';
+
+/**
+ * Classifier that records which emails reach it and files them all as personal
+ */
+class RecordingClassifier implements Classifier {
+  readonly modelName = 'recording';
+  readonly usage = { requests: 0, retries: 0, tokens: 0 };
+
+  constructor(private classified: string[]) {}
+
+  async classifyEmail(email: Email): Promise<ClassificationResult> {
+    this.classified.push(email.subject);
+    return { category: DEFAULT_CATEGORY, isAdvertising: false, confidence: 0.9, reason: 'Recorded' };
+  }
+
+  async classifyBatch(emails: Email[]): Promise<BatchClassification> {
+    const results = new Map<string, ClassificationResult>();
+    for (const email of emails) results.set(email.id, await this.classifyEmail(email));
+    return { results, failures: new Map() };
+  }
+
+  async train(): Promise<void> {}
+
+  startRun(): void {}
+}
+
+function bulkEmail(id: string, subject: string, headers: EmailHeaders): Email {
+  return {
+    id,
+    messageId: `<${id}@test.example.com>`,
+    subject,
+    sender: 'Sender <news@brand.example.com>',
+    date: new Date(),
+    ageInDays: 1,
+    body: subject,
+    html: '<img src="https://t.example.com/o.gif" width="1" height="1">',
+    text: subject,
+    labels: [],
+    headers: { returnPath: 'bounce@esp.example.net', ...headers }
+  };
+}
+
+async function testHeaderShortcut() {
+  // Throwaway data directory without categories.json, so the default taxonomy is used
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'email-deletifier-test-'));
+  const env = { ...config, dataDir, unsubscribe: false, dryRun: true };
+  const classified: string[] = [];
+  const labeled: string[] = [];
+  const mailProvider = {
+    hasLabels: true,
+    async addLabels(emails: Email[], label: string) {
+      emails.forEach(email => labeled.push(`${label}: ${email.subject}`));
+      return new Map();
+    }
+  } as unknown as MailProvider;
+
+  try {
+    const options = { ...processorOptionsFromConfig(env), actionMode: 'label' as const, headerScoreThreshold: 0.9 };
+    console.log(`Categories: ${options.categories.map(category => category.name).join(', ')}\n`);
+    const processor = new EmailProcessor(mailProvider, new RecordingClassifier(classified), options, env);
+
+    await processor.newMailPass([
+      bulkEmail('1', 'Campaign via an ESP with one-click unsubscribe', {
+        listUnsubscribe: '<https://brand.example.com/unsub>',
+        listUnsubscribePost: 'List-Unsubscribe=One-Click',
+        precedence: 'bulk',
+        esps: ['Mailgun']
+      }),
+      bulkEmail('2', 'Mailing list digest without an ESP', {
+        listUnsubscribe: '<https://lists.example.org/unsub>',
+        listUnsubscribePost: 'List-Unsubscribe=One-Click',
+        listId: '<digest.lists.example.org>',
+        precedence: 'list',
+        esps: []
+      })
+    ]);
+
+    console.log('\nSent to the classifier:');
+    classified.forEach(subject => console.log(`- ${subject}`));
+    console.log('\nLabels applied:');
+    labeled.forEach(entry => console.log(`- ${entry}`));
+
+    const ok = classified.length === 1 && classified[0].startsWith('Mailing list')
+      && labeled.some(entry => entry.startsWith('Advertising: Campaign'));
+    console.log(ok
+      ? '\nThe campaign was decided from its headers; the digest went to the classifier'
+      : '\nUnexpected result');
+    if (!ok) process.exitCode = 1;
+  } finally {
+    closeDatabase();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+// Run the test
+console.log('Starting header shortcut test...\n');
+testHeaderShortcut().catch(error => {
+  console.error('Error during test:', error);
+  process.exit(1);
+});
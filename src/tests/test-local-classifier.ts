@@ -0,0 +1,69 @@
+import { LocalClassifier } from '../services/classifier/LocalClassifier';
+import { Email } from '../services/email/MailProvider';
+import os from 'os';
+import path from 'path';
+
+async function testLocalClassifier() {
+  // Use a throwaway model file so the test never touches the real DATA_DIR
+  const modelPath = path.join(os.tmpdir(), `email-deletifier-test-model-${Date.now()}.json`);
+  const classifier = new LocalClassifier(modelPath);
+
+  const sampleEmails: Email[] = [
+    {
+      id: '1',
+      subject: 'Huge SALE - 40% off this weekend only!',
+      sender: 'Shop Team <deals@newstore.example.com>',
+      date: new Date(),
+      ageInDays: 1,
+      body: 'Exclusive offer for you. Shop now and save on every order. Unsubscribe at any time.',
+      html: '',
+      text: '',
+      labels: []
+    },
+    {
+      id: '2',
+      subject: 'Re: project timeline',
+      sender: 'Alice <alice@company.com>',
+      date: new Date(),
+      ageInDays: 1,
+      body: 'Thanks for the update. Could we move the review meeting to Thursday? Please send the draft beforehand.',
+      html: '',
+      text: '',
+      labels: []
+    },
+    {
+      id: '3',
+      subject: 'Tom commented on your post',
+      sender: 'Facebook <notification@facebookmail.com>',
+      date: new Date(),
+      ageInDays: 1,
+      body: 'Tom commented on your post: "See you there!" Reply to the comment or view all notifications.',
+      html: '',
+      text: '',
+      labels: []
+    }
+  ];
+
+  console.log('Testing local email classification...\n');
+
+  for (const email of sampleEmails) {
+    console.log(`\nAnalyzing email: ${email.subject}`);
+    console.log(`From: ${email.sender}`);
+
+    const result = await classifier.classifyEmail(email);
+
+    console.log('Classification Result:');
+    console.log(`Category: ${result.category}`);
+    console.log(`Is Advertising: ${result.isAdvertising}`);
+    console.log(`Confidence: ${(result.confidence * 100).toFixed(1)}%`);
+    console.log(`Reason: ${result.reason}`);
+    console.log('---');
+  }
+}
+
+// Run the test
+console.log('Starting local classifier test...\n');
+testLocalClassifier().catch(error => {
+  console.error('Error during test:', error);
+  process.exit(1);
+});
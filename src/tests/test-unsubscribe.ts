@@ -0,0 +1,192 @@
+import http from 'http';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { UnsubscribeService } from '../services/unsubscribe/UnsubscribeService';
+import { SmtpTransport } from '../services/unsubscribe/MailTransport';
+import { HttpsOneClickClient } from '../services/unsubscribe/OneClickClient';
+import { UnsubscribeStore } from '../services/storage/UnsubscribeStore';
+import { openDatabase, closeDatabase } from '../services/storage/Database';
+import { Email } from '../services/email/MailProvider';
+
+/**
+ * Local one-click endpoint: /broken answers 500, /moved redirects, anything else 200
+ */
+function startOneClickStub(requests: string[]): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      requests.push(`${req.method} ${req.url} (${req.headers['content-type']}) ${body}`);
+      if (req.url === '/broken') {
+        res.writeHead(500);
+      } else if (req.url === '/moved') {
+        res.writeHead(302, { Location: '/unsub/elsewhere' });
+      } else {
+        res.writeHead(200);
+      }
+      res.end();
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+/**
+ * Minimal SMTP sink that accepts every message and keeps its DATA
+ */
+function startSmtpSink(messages: string[]): Promise<net.Server> {
+  const server = net.createServer(socket => {
+    let inData = false;
+    let data = '';
+    let pending = '';
+    socket.write('220 localhost test sink\r\n');
+    socket.on('data', chunk => {
+      pending += chunk.toString();
+      let lineEnd: number;
+      while ((lineEnd = pending.indexOf('\r\n')) !== -1) {
+        const line = pending.slice(0, lineEnd);
+        pending = pending.slice(lineEnd + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            messages.push(data);
+            data = '';
+            socket.write('250 OK\r\n');
+          } else {
+            data += line + '\n';
+          }
+        } else if (/^DATA/i.test(line)) {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (/^QUIT/i.test(line)) {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function advertisingEmail(id: string, sender: string, listUnsubscribe: string, oneClick: boolean): Email {
+  return {
+    id,
+    subject: `Weekly deals ${id}`,
+    sender,
+    date: new Date(),
+    ageInDays: 1,
+    body: 'Shop now',
+    html: '',
+    text: '',
+    labels: [],
+    headers: {
+      listUnsubscribe,
+      listUnsubscribePost: oneClick ? 'List-Unsubscribe=One-Click' : undefined,
+      esps: []
+    }
+  };
+}
+
+async function testUnsubscribe() {
+  const httpRequests: string[] = [];
+  const smtpMessages: string[] = [];
+  const smtpSink = await startSmtpSink(smtpMessages);
+  const oneClickStub = await startOneClickStub(httpRequests);
+  // "localhost" goes through the client's own lookup, the way a sender's host name does
+  const stubUrl = `http://localhost:${(oneClickStub.address() as AddressInfo).port}`;
+  const localClient = new HttpsOneClickClient({ allowLoopbackHttp: true });
+
+  // Use a throwaway database so the test never touches the real DATA_DIR
+  const store = new UnsubscribeStore(openDatabase(path.join(os.tmpdir(), `email-deletifier-test-${Date.now()}.db`)));
+  const transport = new SmtpTransport({
+    host: '127.0.0.1',
+    port: (smtpSink.address() as AddressInfo).port,
+    secure: false,
+    user: '',
+    password: ''
+  });
+
+  try {
+    const cases: Array<{ name: string; email: Email; dryRun?: boolean; oneClick?: HttpsOneClickClient }> = [
+      {
+        name: 'Dry run (nothing sent)',
+        email: advertisingEmail('1', 'Shop <deals@shop.example.com>', `<${stubUrl}/unsub/shop>`, true),
+        dryRun: true
+      },
+      {
+        name: 'One-click POST',
+        email: advertisingEmail('2', 'Shop <deals@shop.example.com>', `<${stubUrl}/unsub/shop>, <mailto:unsub@shop.example.com>`, true)
+      },
+      {
+        name: 'Same sender again (skipped)',
+        email: advertisingEmail('3', 'Shop <news@shop.example.com>', `<${stubUrl}/unsub/shop>`, true)
+      },
+      {
+        name: 'mailto: request',
+        email: advertisingEmail('4', 'News <news@letters.example.org>', '<mailto:leave@letters.example.org?subject=remove%20me>', false)
+      },
+      {
+        name: 'Failing one-click, falls back to mailto:',
+        email: advertisingEmail('5', 'Store <hi@store.example.net>', `<${stubUrl}/broken>, <mailto:unsub@store.example.net>`, true)
+      },
+      {
+        name: 'Redirecting one-click (not followed), falls back to mailto:',
+        email: advertisingEmail('8', 'Outlet <hi@outlet.example.net>', `<${stubUrl}/moved>, <mailto:unsub@outlet.example.net>`, true)
+      },
+      {
+        name: 'Link without one-click support (skipped)',
+        email: advertisingEmail('6', 'Blog <hi@blog.example.io>', '<https://blog.example.io/page>', false)
+      },
+      {
+        name: 'Plain http one-click URL, falls back to mailto:',
+        email: advertisingEmail('7', 'Mall <hi@mall.example.com>', '<http://mall.example.com/unsub>, <mailto:unsub@mall.example.com>', true),
+        oneClick: new HttpsOneClickClient()
+      }
+    ];
+
+    for (const testCase of cases) {
+      const service = new UnsubscribeService(store, transport, testCase.dryRun ?? false, testCase.oneClick ?? localClient);
+      const result = await service.unsubscribe(testCase.email);
+      console.log(`\n${testCase.name}`);
+      console.log(`- Status: ${result.status}`);
+      console.log(`- Reason: ${result.reason}`);
+      if (result.target) console.log(`- ${result.method}: ${result.target}`);
+    }
+
+    console.log('\nRecorded attempts:');
+    for (const domain of ['shop.example.com', 'store.example.net', 'outlet.example.net']) {
+      for (const attempt of store.attemptsFor(domain)) {
+        console.log(`- ${domain} ${attempt.method}: ${attempt.success ? 'ok' : `failed (${attempt.error})`}`);
+      }
+    }
+
+    // Without the test option the client refuses URLs pointing at this machine or the local network
+    console.log('\nHTTPS one-click client:');
+    for (const url of ['http://example.com/unsub', 'https://127.0.0.1/unsub', 'https://[::1]/unsub', 'https://192.168.1.1/unsub', 'https://localhost/unsub']) {
+      const error = await new HttpsOneClickClient().post(url).then(() => null, (err: Error) => err.message);
+      console.log(`- ${url}: ${error ?? 'sent'}`);
+    }
+
+    console.log('\nOne-click requests:');
+    httpRequests.forEach(request => console.log(`- ${request}`));
+    console.log('\nSMTP sink received:');
+    smtpMessages.forEach(message => {
+      const to = message.match(/^To: (.*)$/m)?.[1];
+      const subject = message.match(/^Subject: (.*)$/m)?.[1];
+      console.log(`- To: ${to}, Subject: ${subject}`);
+    });
+  } finally {
+    smtpSink.close();
+    oneClickStub.close();
+    closeDatabase();
+  }
+}
+
+// Run the test
+console.log('Starting unsubscribe test...\n');
+testUnsubscribe().catch(error => {
+  console.error('Error during test:', error);
+  process.exit(1);
+});
@@ -0,0 +1,16 @@
+/**
+ * Extract the bare, lower-cased email address from a From header value
+ * such as `"Shop" <deals@shop.example.com>`
+ */
+export function extractAddress(sender: string): string {
+  return (sender.match(/<([^>]+)>/)?.[1] || sender).trim().toLowerCase();
+}
+
+/**
+ * Extract the domain part of a sender's address, or '' if there is none
+ */
+export function extractDomain(sender: string): string {
+  const address = extractAddress(sender);
+  const at = address.lastIndexOf('@');
+  return at === -1 ? '' : address.slice(at + 1);
+}
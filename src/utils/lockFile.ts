@@ -0,0 +1,54 @@
+import fs from 'fs';
+import path from 'path';
+
+/** Lock file name in DATA_DIR shared by the one-shot runner and the daemon */
+export const RUN_LOCK_NAME = 'email-deletifier.lock';
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Take an exclusive lock by creating a file containing our PID.
+ * A lock left behind by a process that no longer exists is taken over.
+ * @returns A function that releases the lock
+ */
+export function acquireLock(lockPath: string): () => void {
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        try {
+          fs.unlinkSync(lockPath);
+        } catch (error) {
+          console.error(`Failed to remove lock file "${lockPath}":`, error);
+        }
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+
+      const pid = parseInt(fs.readFileSync(lockPath, 'utf8'), 10);
+      if (!isNaN(pid) && pid !== process.pid && isProcessRunning(pid)) {
+        throw new Error(`Another instance is already running (PID ${pid}, lock file ${lockPath})`);
+      }
+
+      console.log(`Removing stale lock file "${lockPath}"`);
+      fs.unlinkSync(lockPath);
+    }
+  }
+
+  throw new Error(`Failed to acquire lock file "${lockPath}"`);
+}
@@ -0,0 +1,18 @@
+/**
+ * Normalize message text for classification: drop invisible characters,
+ * collapse whitespace and blank lines, and cap the length
+ */
+export function cleanBody(text: string, maxLength: number): string {
+  const cleaned = text
+    .replace(/[\u200B-\u200D\u2060\uFEFF\u00AD\u034F]/g, '')  // Zero-width and soft hyphen preheader padding
+    .replace(/\[(?:https?|cid):[^\]\s]*\]/g, '')  // Image placeholders left by the HTML conversion
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00A0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  if (cleaned.length <= maxLength) return cleaned;
+  return cleaned.slice(0, maxLength).replace(/\s+\S*$/, '') + '...';
+}
+